@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import { BuildResult } from '../xcode/build';
+import { Device, bootDevice, needsBoot, installApp, launchAppForDebugging, supportsDebugging, terminateApp } from '../devices/manager';
+import { run } from '../process/runner';
+import { Job } from '../run/job';
+
+export const DEBUG_TYPE = 'simbuild';
+
+/**
+ * What the debugger needs from the rest of the extension: the selected target,
+ * the known devices and a way to build with the usual status reporting.
+ */
+export interface DebugHost {
+    ensureBuildTarget(): Promise<boolean>;
+    /** The device with the UDID or name as it is now, or the selected one without it */
+    findDevice(nameOrUdid?: string): Promise<Device | undefined>;
+    /** Runs the work as a job, so Stop and concurrent builds cancel it like a build */
+    runJob<T>(name: string, work: (job: Job) => Promise<T>): Promise<T | undefined>;
+    buildApp(job: Job, device: Device): Promise<BuildResult | undefined>;
+    getBundleId(result: BuildResult): Promise<string | undefined>;
+}
+
+interface SimBuildDebugConfiguration extends vscode.DebugConfiguration {
+    lldbDapPath?: string;
+    /** UDID or name of the simulator; defaults to the selected device */
+    device?: string;
+    pid?: number;
+    program?: string;
+    simbuildDevice?: Device;
+    simbuildBundleId?: string;
+}
+
+async function findLldbDap(configuredPath?: string): Promise<string> {
+    if (configuredPath) {
+        return configuredPath;
+    }
+
+    const settingPath = vscode.workspace.getConfiguration('simbuild').get<string>('lldbDapPath');
+    if (settingPath) {
+        return settingPath;
+    }
+
+    // lldb-dap ships with Xcode 16+, older toolchains call it lldb-vscode
+    for (const tool of ['lldb-dap', 'lldb-vscode']) {
+        try {
+            const { stdout } = await run('xcrun', ['-f', tool]);
+            if (stdout.trim()) {
+                return stdout.trim();
+            }
+        } catch {
+            // Try the next name
+        }
+    }
+
+    throw new Error('lldb-dap not found. Install Xcode 16 or set "simbuild.lldbDapPath".');
+}
+
+/**
+ * Turns a `simbuild` launch configuration into an lldb-dap attach request:
+ * builds the current scheme, installs it and launches it suspended.
+ */
+export class SimBuildDebugConfigurationProvider implements vscode.DebugConfigurationProvider {
+    constructor(private readonly host: DebugHost) {}
+
+    resolveDebugConfiguration(
+        _folder: vscode.WorkspaceFolder | undefined,
+        config: vscode.DebugConfiguration
+    ): vscode.DebugConfiguration {
+        // F5 without a launch.json
+        if (!config.type && !config.request && !config.name) {
+            config.type = DEBUG_TYPE;
+            config.request = 'launch';
+            config.name = 'SimBuild: Debug';
+        }
+        return config;
+    }
+
+    async resolveDebugConfigurationWithSubstitutedVariables(
+        _folder: vscode.WorkspaceFolder | undefined,
+        config: SimBuildDebugConfiguration,
+        token?: vscode.CancellationToken
+    ): Promise<vscode.DebugConfiguration | undefined> {
+        if (!(await this.host.ensureBuildTarget())) {
+            return undefined;
+        }
+
+        const device = await this.host.findDevice(config.device);
+        if (!device) {
+            vscode.window.showErrorMessage(`SimBuild: No device named "${config.device}".`);
+            return undefined;
+        }
+        if (!supportsDebugging(device)) {
+            vscode.window.showErrorMessage('SimBuild: Debugging is only supported on simulators.');
+            return undefined;
+        }
+
+        try {
+            return await this.host.runJob('Debug', async job => {
+                // Stopping the session while it starts also stops the job
+                const cancellation = token?.onCancellationRequested(() => job.cancel());
+                try {
+                    return await this.prepare(config, device, job);
+                } finally {
+                    cancellation?.dispose();
+                }
+            });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`SimBuild: Failed to start debugging: ${error.message}`);
+            return undefined;
+        }
+    }
+
+    private async prepare(config: SimBuildDebugConfiguration, device: Device, job: Job): Promise<vscode.DebugConfiguration | undefined> {
+        const result = await this.host.buildApp(job, device);
+        if (!result?.success || !result.appPath) {
+            return undefined;
+        }
+        job.throwIfCancelled();
+
+        return vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'SimBuild'
+            },
+            async (progress) => {
+                if (needsBoot(device)) {
+                    progress.report({ message: 'Booting simulator...' });
+                    await bootDevice(device, job);
+                }
+
+                progress.report({ message: 'Installing...' });
+                await installApp(device, result.appPath!, job);
+                job.throwIfCancelled();
+
+                const bundleId = await this.host.getBundleId(result);
+                if (!bundleId) {
+                    throw new Error('Could not determine the bundle identifier');
+                }
+
+                progress.report({ message: 'Launching for debugging...' });
+                const pid = await launchAppForDebugging(device, bundleId);
+
+                return {
+                    ...config,
+                    request: 'attach',
+                    pid,
+                    program: result.executablePath,
+                    simbuildDevice: device,
+                    simbuildBundleId: bundleId
+                };
+            }
+        );
+    }
+}
+
+export class SimBuildDebugAdapterFactory implements vscode.DebugAdapterDescriptorFactory {
+    async createDebugAdapterDescriptor(
+        session: vscode.DebugSession
+    ): Promise<vscode.DebugAdapterDescriptor> {
+        const config = session.configuration as SimBuildDebugConfiguration;
+        return new vscode.DebugAdapterExecutable(await findLldbDap(config.lldbDapPath));
+    }
+}
+
+export function registerDebugger(host: DebugHost): vscode.Disposable {
+    return vscode.Disposable.from(
+        vscode.debug.registerDebugConfigurationProvider(DEBUG_TYPE, new SimBuildDebugConfigurationProvider(host)),
+        vscode.debug.registerDebugAdapterDescriptorFactory(DEBUG_TYPE, new SimBuildDebugAdapterFactory()),
+        // The app keeps running after lldb detaches, stop it with the session
+        vscode.debug.onDidTerminateDebugSession(session => {
+            const config = session.configuration as SimBuildDebugConfiguration;
+            if (session.type === DEBUG_TYPE && config.simbuildDevice && config.simbuildBundleId) {
+                terminateApp(config.simbuildDevice, config.simbuildBundleId);
+            }
+        })
+    );
+}
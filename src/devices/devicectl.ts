@@ -0,0 +1,72 @@
+import { CancellationToken, run } from '../process/runner';
+import type { Device } from './manager';
+import { devicePlatform } from './platform';
+import { DeviceProvider, LogCommand } from './provider';
+
+/**
+ * Physical devices on iOS 17 and later, driven by devicectl.
+ */
+export const devicectlProvider: DeviceProvider = {
+    id: 'devicectl',
+
+    handles(device: Device): boolean {
+        return device.type === 'device' && device.platform !== 'macOS';
+    },
+
+    async listDevices(): Promise<Device[]> {
+        const { stdout } = await run('xcrun', ['devicectl', 'list', 'devices', '--json-output', '/dev/stdout']);
+        const data = JSON.parse(stdout);
+
+        const devices: Device[] = [];
+
+        for (const device of data.result?.devices || []) {
+            if (device.connectionProperties?.transportType === 'wired' ||
+                device.connectionProperties?.transportType === 'network') {
+                devices.push({
+                    udid: device.hardwareProperties?.udid || device.identifier,
+                    name: device.deviceProperties?.name || 'Unknown Device',
+                    type: 'device',
+                    state: device.connectionProperties?.transportType === 'wired' ? 'Connected' : 'Network',
+                    platform: devicePlatform(device.hardwareProperties?.platform || 'iOS', false),
+                    osVersion: device.deviceProperties?.osVersionNumber || 'Unknown',
+                    isAvailable: true
+                });
+            }
+        }
+
+        return devices;
+    },
+
+    async install(device: Device, appPath: string, token?: CancellationToken): Promise<void> {
+        await run('xcrun', ['devicectl', 'device', 'install', 'app', '-d', device.udid, appPath], { token });
+    },
+
+    async launch(device: Device, bundleId: string, token?: CancellationToken): Promise<void> {
+        await run('xcrun', ['devicectl', 'device', 'process', 'launch', '-d', device.udid, bundleId], { token });
+    },
+
+    async uninstall(device: Device, bundleId: string): Promise<void> {
+        await run('xcrun', ['devicectl', 'device', 'uninstall', 'app', '-d', device.udid, bundleId]);
+    },
+
+    async isAppInstalled(device: Device, bundleId: string): Promise<boolean | undefined> {
+        const { stdout } = await run('xcrun', [
+            'devicectl', 'device', 'info', 'apps', '--device', device.udid, '--bundle-id', bundleId, '--json-output', '/dev/stdout'
+        ]);
+        const data = JSON.parse(stdout);
+        return (data.result?.apps || []).length > 0;
+    },
+
+    consoleLog(device: Device, bundleId: string): LogCommand {
+        return {
+            command: 'xcrun',
+            args: [
+                'devicectl', 'device', 'process', 'launch',
+                '-d', device.udid,
+                '--console',
+                '--terminate-existing',
+                bundleId
+            ]
+        };
+    }
+};
@@ -0,0 +1,80 @@
+import { CancellationToken, run } from '../process/runner';
+import type { Device } from './manager';
+import { DeviceProvider, LogCommand, SystemLogStyle } from './provider';
+
+/**
+ * Reads the connected devices from `xctrace list devices`. Its first entry is
+ * this Mac, and devices under "== Devices Offline ==" or "== Simulators ==" are left out.
+ */
+export function parseXctraceDevices(output: string): Device[] {
+    const devices: Device[] = [];
+    let section = '';
+    let skippedMac = false;
+
+    for (const line of output.split('\n')) {
+        const header = line.match(/^==\s*(.+?)\s*==$/);
+        if (header) {
+            section = header[1];
+            continue;
+        }
+        if (section !== 'Devices' || !line.trim()) {
+            continue;
+        }
+        if (!skippedMac) {
+            skippedMac = true;
+            continue;
+        }
+
+        // Match pattern: "Device Name (OS Version) (UDID)"
+        const match = line.match(/^(.+?)\s+\((\d+\.\d+(?:\.\d+)?)\)\s+\(([A-F0-9-]+)\)$/i);
+        if (match) {
+            devices.push({
+                udid: match[3],
+                name: match[1].trim(),
+                type: 'device',
+                state: 'Connected',
+                platform: 'iOS',
+                osVersion: match[2],
+                isAvailable: true
+            });
+        }
+    }
+
+    return devices;
+}
+
+/**
+ * Physical devices devicectl can't drive, through xctrace, ios-deploy and
+ * libimobiledevice (idevicesyslog), which have to be installed separately.
+ */
+export const legacyProvider: DeviceProvider = {
+    id: 'legacy',
+    // xctrace is slow, and devicectl lists every device it knows
+    fallbackFor: 'devicectl',
+
+    handles(device: Device): boolean {
+        return device.type === 'device' && device.platform !== 'macOS';
+    },
+
+    async listDevices(): Promise<Device[]> {
+        const { stdout } = await run('xcrun', ['xctrace', 'list', 'devices']);
+        return parseXctraceDevices(stdout);
+    },
+
+    async install(device: Device, appPath: string, token?: CancellationToken): Promise<void> {
+        await run('ios-deploy', ['--id', device.udid, '--bundle', appPath], { token });
+    },
+
+    async launch(device: Device, bundleId: string, token?: CancellationToken): Promise<void> {
+        await run('ios-deploy', ['--id', device.udid, '--bundle-id', bundleId, '--justlaunch'], { token });
+    },
+
+    async uninstall(device: Device, bundleId: string): Promise<void> {
+        await run('ios-deploy', ['--id', device.udid, '--uninstall_only', '--bundle_id', bundleId]);
+    },
+
+    systemLog(device: Device, _bundleId: string, _processName: string | undefined, style: SystemLogStyle): LogCommand | undefined {
+        // There is no `log stream` for physical devices, and idevicesyslog only prints plain lines
+        return style === 'compact' ? { command: 'idevicesyslog', args: ['-u', device.udid] } : undefined;
+    }
+};
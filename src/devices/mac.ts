@@ -0,0 +1,100 @@
+import * as os from 'os';
+import * as path from 'path';
+import { CancellationToken, run } from '../process/runner';
+import type { Device } from './manager';
+import { DESIGNED_FOR_IPAD, MAC_CATALYST } from './platform';
+import { DeviceProvider, LogCommand, SystemLogStyle, systemLogPredicate } from './provider';
+
+interface MacApp {
+    appPath: string;
+    /** Set for Catalyst apps, which can be run directly to capture their output */
+    executablePath?: string;
+}
+
+// Apps aren't installed on the Mac, they run from the build folder
+const builtApps = new Map<string, MacApp>();
+
+async function infoPlistValue(plist: string, key: string): Promise<string | undefined> {
+    try {
+        const { stdout } = await run('/usr/libexec/PlistBuddy', ['-c', `Print :${key}`, plist]);
+        return stdout.trim() || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * This Mac, running iPad apps built for Mac Catalyst or, on Apple silicon,
+ * the iOS app itself ("Designed for iPad").
+ */
+export const macProvider: DeviceProvider = {
+    id: 'mac',
+
+    handles(device: Device): boolean {
+        return device.platform === 'macOS';
+    },
+
+    async listDevices(): Promise<Device[]> {
+        if (process.platform !== 'darwin') {
+            return [];
+        }
+
+        const { stdout } = await run('sw_vers', ['-productVersion']);
+        const mac = {
+            type: 'device' as const,
+            state: 'Connected',
+            platform: 'macOS',
+            osVersion: stdout.trim(),
+            isAvailable: true
+        };
+
+        const devices: Device[] = [{ ...mac, udid: 'mac-catalyst', name: `My Mac (${MAC_CATALYST})`, variant: MAC_CATALYST }];
+        if (os.arch() === 'arm64') {
+            devices.push({ ...mac, udid: 'mac-designed-for-ipad', name: `My Mac (${DESIGNED_FOR_IPAD})`, variant: DESIGNED_FOR_IPAD });
+        }
+        return devices;
+    },
+
+    async install(device: Device, appPath: string): Promise<void> {
+        // Catalyst apps are macOS bundles, iOS apps keep their flat layout
+        const catalyst = device.variant === MAC_CATALYST;
+        const infoPlist = catalyst ? path.join(appPath, 'Contents', 'Info.plist') : path.join(appPath, 'Info.plist');
+
+        const bundleId = await infoPlistValue(infoPlist, 'CFBundleIdentifier');
+        if (!bundleId) {
+            throw new Error(`Could not read the bundle identifier of ${appPath}`);
+        }
+
+        const executable = catalyst ? await infoPlistValue(infoPlist, 'CFBundleExecutable') : undefined;
+        builtApps.set(bundleId, {
+            appPath,
+            executablePath: executable && path.join(appPath, 'Contents', 'MacOS', executable)
+        });
+    },
+
+    async launch(_device: Device, bundleId: string, token?: CancellationToken): Promise<void> {
+        const app = builtApps.get(bundleId);
+        await run('open', app ? [app.appPath] : ['-b', bundleId], { token });
+    },
+
+    async terminate(_device: Device, bundleId: string): Promise<void> {
+        // The bundle ID is an argument of the script, never part of its source
+        await run('osascript', ['-e', 'on run argv', '-e', 'quit app id (item 1 of argv)', '-e', 'end run', bundleId]);
+    },
+
+    consoleLog(_device: Device, bundleId: string): LogCommand {
+        const app = builtApps.get(bundleId);
+        if (app?.executablePath) {
+            return { command: app.executablePath, args: [] };
+        }
+        // Without the executable there is no output to attach to; run until the app quits
+        return { command: 'open', args: ['-W', ...(app ? [app.appPath] : ['-b', bundleId])] };
+    },
+
+    systemLog(_device: Device, bundleId: string, processName: string | undefined, style: SystemLogStyle): LogCommand {
+        return {
+            command: 'log',
+            args: ['stream', '--level', 'debug', '--style', style, '--predicate', systemLogPredicate(bundleId, processName)]
+        };
+    }
+};
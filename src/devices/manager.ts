@@ -1,10 +1,11 @@
-import { exec, spawn, ChildProcess } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
-
-let logProcess: ChildProcess | null = null;
-let logProcessId: number = 0; // Used to track which process the callbacks belong to
+import { ChildProcess } from 'child_process';
+import { LogStreamManager, LogStreamSpec } from '../logs/streams';
+import { CancellationToken, spawnProcess } from '../process/runner';
+import { devicectlProvider } from './devicectl';
+import { legacyProvider } from './legacy';
+import { macProvider } from './mac';
+import { DeviceListing, DeviceProvider, DeviceProviders, ListOptions, SystemLogStyle } from './provider';
+import { simulatorProvider } from './simulator';
 
 export type DeviceType = 'simulator' | 'device';
 
@@ -16,191 +17,85 @@ export interface Device {
     platform: string;
     osVersion: string;
     isAvailable: boolean;
+    /** ID of the DeviceProvider that listed it */
+    provider?: string;
+    /** How a Mac runs the app: Mac Catalyst or Designed for iPad */
+    variant?: string;
 }
 
-interface SimctlDevice {
-    udid: string;
-    name: string;
-    state: string;
-    isAvailable: boolean;
-}
+/**
+ * Every device operation goes through these. devicectl comes before the legacy
+ * tools so that they are only used for devices it can't drive.
+ */
+export const deviceProviders = new DeviceProviders([simulatorProvider, devicectlProvider, legacyProvider, macProvider]);
 
-interface SimctlOutput {
-    devices: { [runtime: string]: SimctlDevice[] };
+export function registerDeviceProvider(provider: DeviceProvider): { dispose(): void } {
+    return deviceProviders.register(provider);
 }
 
-export async function listAllDevices(): Promise<Device[]> {
-    const devices: Device[] = [];
-
-    // Get simulators
-    const simulators = await listSimulators();
-    devices.push(...simulators);
-
-    // Get real devices
-    const realDevices = await listRealDevices();
-    devices.push(...realDevices);
-
-    return devices;
+export function listAllDevices(): Promise<Device[]> {
+    return deviceProviders.listDevices();
 }
 
-async function listSimulators(): Promise<Device[]> {
-    try {
-        const { stdout } = await execAsync('xcrun simctl list devices available --json');
-        const data: SimctlOutput = JSON.parse(stdout);
-
-        const devices: Device[] = [];
-
-        for (const [runtime, simDevices] of Object.entries(data.devices)) {
-            // Extract runtime name (e.g., "com.apple.CoreSimulator.SimRuntime.iOS-17-0" -> "iOS 17.0")
-            const runtimeMatch = runtime.match(/iOS-(\d+)-(\d+)/);
-            const osVersion = runtimeMatch
-                ? `${runtimeMatch[1]}.${runtimeMatch[2]}`
-                : 'Unknown';
-
-            for (const device of simDevices) {
-                if (device.isAvailable) {
-                    devices.push({
-                        udid: device.udid,
-                        name: device.name,
-                        type: 'simulator',
-                        state: device.state,
-                        platform: 'iOS Simulator',
-                        osVersion,
-                        isAvailable: device.isAvailable
-                    });
-                }
-            }
-        }
-
-        return devices;
-    } catch (error) {
-        console.error('Failed to list simulators:', error);
-        return [];
-    }
+export function listDevicesWithFailures(options?: ListOptions): Promise<DeviceListing> {
+    return deviceProviders.list(options);
 }
 
-async function listRealDevices(): Promise<Device[]> {
-    try {
-        // Use xcrun devicectl for iOS 17+ devices
-        const devices = await listDevicesWithDevicectl();
-        if (devices.length > 0) {
-            return devices;
-        }
-
-        // Fallback to instruments for older devices
-        return await listDevicesWithInstruments();
-    } catch {
-        return [];
-    }
+/**
+ * Whether the device has to be booted before installing to it.
+ */
+export function needsBoot(device: Device): boolean {
+    return device.state !== 'Booted' && deviceProviders.supports(device, 'boot');
 }
 
-async function listDevicesWithDevicectl(): Promise<Device[]> {
-    try {
-        const { stdout } = await execAsync('xcrun devicectl list devices --json-output /dev/stdout 2>/dev/null');
-        const data = JSON.parse(stdout);
-
-        const devices: Device[] = [];
-
-        for (const device of data.result?.devices || []) {
-            if (device.connectionProperties?.transportType === 'wired' ||
-                device.connectionProperties?.transportType === 'network') {
-                devices.push({
-                    udid: device.hardwareProperties?.udid || device.identifier,
-                    name: device.deviceProperties?.name || 'Unknown Device',
-                    type: 'device',
-                    state: device.connectionProperties?.transportType === 'wired' ? 'Connected' : 'Network',
-                    platform: 'iOS',
-                    osVersion: device.deviceProperties?.osVersionNumber || 'Unknown',
-                    isAvailable: true
-                });
-            }
-        }
-
-        return devices;
-    } catch {
-        return [];
-    }
+export async function bootDevice(device: Device, token?: CancellationToken): Promise<void> {
+    await deviceProviders.perform(device, 'boot', p => p.boot(device, token));
 }
 
-async function listDevicesWithInstruments(): Promise<Device[]> {
-    try {
-        const { stdout } = await execAsync('xcrun xctrace list devices 2>/dev/null');
-        const lines = stdout.split('\n');
-        const devices: Device[] = [];
+export async function shutdownDevice(device: Device): Promise<void> {
+    await deviceProviders.perform(device, 'shutdown', p => p.shutdown(device));
+}
 
-        for (const line of lines) {
-            // Match pattern: "Device Name (OS Version) (UDID)"
-            const match = line.match(/^(.+?)\s+\((\d+\.\d+(?:\.\d+)?)\)\s+\(([A-F0-9-]+)\)$/i);
-            if (match && !line.toLowerCase().includes('simulator')) {
-                devices.push({
-                    udid: match[3],
-                    name: match[1].trim(),
-                    type: 'device',
-                    state: 'Connected',
-                    platform: 'iOS',
-                    osVersion: match[2],
-                    isAvailable: true
-                });
-            }
-        }
+export async function installApp(device: Device, appPath: string, token?: CancellationToken): Promise<void> {
+    await deviceProviders.perform(device, 'install', p => p.install(device, appPath, token));
+}
 
-        return devices;
-    } catch {
-        return [];
-    }
+export async function launchApp(device: Device, bundleId: string, token?: CancellationToken): Promise<void> {
+    await deviceProviders.perform(device, 'launch', p => p.launch(device, bundleId, token));
 }
 
-export async function bootSimulator(udid: string): Promise<void> {
-    try {
-        await execAsync(`xcrun simctl boot "${udid}"`);
-    } catch (error: any) {
-        // Ignore "already booted" error
-        if (!error.message?.includes('Unable to boot device in current state: Booted')) {
-            throw error;
-        }
-    }
+export function supportsDebugging(device: Device): boolean {
+    return deviceProviders.supports(device, 'launchForDebugging');
 }
 
-export async function openSimulatorApp(): Promise<void> {
-    await execAsync('open -a Simulator');
+/**
+ * Launches the app suspended until a debugger attaches and returns its process ID.
+ */
+export function launchAppForDebugging(device: Device, bundleId: string): Promise<number> {
+    return deviceProviders.perform(device, 'launchForDebugging', p => p.launchForDebugging(device, bundleId));
 }
 
-export async function installApp(device: Device, appPath: string): Promise<void> {
-    if (device.type === 'simulator') {
-        await execAsync(`xcrun simctl install "${device.udid}" "${appPath}"`);
-    } else {
-        // Use devicectl for real devices (iOS 17+)
-        try {
-            await execAsync(`xcrun devicectl device install app -d "${device.udid}" "${appPath}"`);
-        } catch {
-            // Fallback to ios-deploy if available
-            await execAsync(`ios-deploy --id "${device.udid}" --bundle "${appPath}"`);
-        }
+/**
+ * Whether the app is installed on the device. Returns undefined when it can't be
+ * determined (simulators have to be booted for simctl to look up apps).
+ */
+export async function isAppInstalled(device: Device, bundleId: string): Promise<boolean | undefined> {
+    try {
+        return await deviceProviders.perform(device, 'isAppInstalled', p => p.isAppInstalled(device, bundleId));
+    } catch {
+        return undefined;
     }
 }
 
-export async function launchApp(device: Device, bundleId: string): Promise<void> {
-    if (device.type === 'simulator') {
-        await execAsync(`xcrun simctl launch "${device.udid}" "${bundleId}"`);
-    } else {
-        // Use devicectl for real devices
-        try {
-            await execAsync(`xcrun devicectl device process launch -d "${device.udid}" "${bundleId}"`);
-        } catch {
-            // Fallback to ios-deploy
-            await execAsync(`ios-deploy --id "${device.udid}" --bundle-id "${bundleId}" --justlaunch`);
-        }
-    }
+export async function uninstallApp(device: Device, bundleId: string): Promise<void> {
+    await deviceProviders.perform(device, 'uninstall', p => p.uninstall(device, bundleId));
 }
 
 export async function terminateApp(device: Device, bundleId: string): Promise<void> {
     try {
-        if (device.type === 'simulator') {
-            await execAsync(`xcrun simctl terminate "${device.udid}" "${bundleId}"`);
-        }
-        // For real devices, termination is handled differently
+        await deviceProviders.perform(device, 'terminate', p => p.terminate(device, bundleId));
     } catch {
-        // Ignore errors if app is not running
+        // Ignore errors if app is not running, or it can't be stopped on this device
     }
 }
 
@@ -210,155 +105,93 @@ export interface LogStreamOptions {
     device: Device;
     bundleId: string;
     mode?: LogMode;
+    /** Executable name of the app, used to match its os_log output */
+    processName?: string;
     onLog: (line: string) => void;
     onError: (error: string) => void;
-    onClose: () => void;
-}
-
-let stdoutLogProcess: ChildProcess | null = null;
-
-export function startLogStream(options: LogStreamOptions): boolean {
-    // Stop any existing log stream
-    stopLogStream();
-
-    const { device, bundleId, onLog, onError, onClose, mode = 'stdout' } = options;
-
-    // Increment process ID to track this specific process
-    const currentProcessId = ++logProcessId;
-
-    if (device.type === 'simulator') {
-        if (mode === 'stdout' || mode === 'both') {
-            // Use simctl launch --console to capture stdout/stderr (print statements)
-            stdoutLogProcess = spawn('xcrun', [
-                'simctl', 'launch', '--console-pty', '--terminate-running-process',
-                device.udid, bundleId
-            ]);
-
-            stdoutLogProcess.stdout?.on('data', (data: Buffer) => {
-                if (currentProcessId !== logProcessId) return;
-                const lines = data.toString().split('\n');
-                for (const line of lines) {
-                    if (line.trim()) {
-                        onLog(line);
-                    }
-                }
-            });
-
-            stdoutLogProcess.stderr?.on('data', (data: Buffer) => {
-                if (currentProcessId !== logProcessId) return;
-                const lines = data.toString().split('\n');
-                for (const line of lines) {
-                    if (line.trim()) {
-                        onLog(`[stderr] ${line}`);
-                    }
-                }
-            });
-
-            stdoutLogProcess.on('close', () => {
-                if (currentProcessId !== logProcessId) return;
-                stdoutLogProcess = null;
-                if (mode === 'stdout') {
-                    onClose();
-                }
-            });
-
-            stdoutLogProcess.on('error', (err) => {
-                if (currentProcessId !== logProcessId) return;
-                onError(err.message);
+    /** Receives the exit code of the first stream, normally the app console */
+    onClose: (exitCode: number | null) => void;
+}
+
+/**
+ * Streams the unified log (os_log, Logger, NSLog) of the app.
+ */
+export function spawnSystemLog(
+    device: Device,
+    bundleId: string,
+    processName: string | undefined,
+    style: SystemLogStyle
+): ChildProcess {
+    const log = deviceProviders.find(device, 'systemLog', p => p.systemLog(device, bundleId, processName, style));
+    if (!log) {
+        throw new Error(`${device.name} doesn't support ${style} system logs`);
+    }
+    return spawnProcess(log.command, log.args);
+}
+
+/**
+ * The processes behind a log mode. With both streams running, each line is
+ * prefixed with the stream it came from. Streams the device can't provide are left out.
+ */
+export function getLogStreamSpecs(device: Device, bundleId: string, mode: LogMode, processName?: string): LogStreamSpec[] {
+    const specs: LogStreamSpec[] = [];
+    const prefixed = mode === 'both';
+
+    if (mode === 'stdout' || mode === 'both') {
+        // Launches the app attached to its console so print() output arrives on stdout
+        const consoleLog = deviceProviders.find(device, 'consoleLog', p => p.consoleLog(device, bundleId));
+        if (consoleLog) {
+            specs.push({
+                name: 'stdout',
+                ...consoleLog,
+                prefix: prefixed ? '[stdout] ' : undefined,
+                stderr: 'log'
             });
-
-            // If only stdout mode, we're done
-            if (mode === 'stdout') {
-                logProcess = stdoutLogProcess;
-                return true;
-            }
         }
+    }
 
-        if (mode === 'system' || mode === 'both') {
-            // Use log stream for system logs (os_log, NSLog)
-            const processName = bundleId.split('.').pop() || bundleId;
-
-            logProcess = spawn('xcrun', [
-                'simctl', 'spawn', device.udid,
-                'log', 'stream',
-                '--level', 'debug',
-                '--style', 'compact',
-                '--predicate', `processImagePath contains "${processName}" OR subsystem contains "${bundleId}"`
-            ]);
-        }
-    } else {
-        // For real devices, use devicectl with --console to capture stdout
-        if (mode === 'stdout' || mode === 'both') {
-            logProcess = spawn('xcrun', [
-                'devicectl', 'device', 'process', 'launch',
-                '-d', device.udid,
-                '--console',
-                '--terminate-existing',
-                bundleId
-            ]);
-        } else {
-            // System log mode - use idevicesyslog if available
-            logProcess = spawn('idevicesyslog', ['-u', device.udid]);
+    if (mode === 'system' || mode === 'both') {
+        const system = deviceProviders.find(device, 'systemLog', p => p.systemLog(device, bundleId, processName, 'compact'));
+        if (system) {
+            specs.push({
+                name: 'system',
+                ...system,
+                prefix: prefixed ? '[system] ' : undefined
+            });
         }
     }
 
-    if (!logProcess) {
-        return false;
-    }
+    return specs;
+}
 
-    logProcess.stdout?.on('data', (data: Buffer) => {
-        // Only process if this is still the current log process
-        if (currentProcessId !== logProcessId) return;
+/**
+ * Replaces whatever runs on `streams` with the streams of the requested mode.
+ * The first stream that starts is the session: once it ends, the others are
+ * stopped and onClose fires, so the system log doesn't outlive the app's console.
+ */
+export function startLogStream(streams: LogStreamManager, options: LogStreamOptions): boolean {
+    streams.stopAll();
 
-        const lines = data.toString().split('\n');
-        for (const line of lines) {
-            if (line.trim()) {
-                onLog(line);
+    const { device, bundleId, processName, onLog, onError, onClose, mode = 'stdout' } = options;
+    const specs = getLogStreamSpecs(device, bundleId, mode, processName);
+
+    let session: string | undefined;
+    const handlers = {
+        onLog: (line: string) => onLog(line),
+        onError: (error: string) => onError(error),
+        onClose: (stream: string, code: number | null) => {
+            if (stream === session) {
+                specs.forEach(spec => streams.stop(spec.name));
+                onClose(code);
             }
         }
-    });
-
-    logProcess.stderr?.on('data', (data: Buffer) => {
-        // Only process if this is still the current log process
-        if (currentProcessId !== logProcessId) return;
-        onError(data.toString());
-    });
+    };
 
-    logProcess.on('close', () => {
-        // Only update state if this is still the current log process
-        if (currentProcessId !== logProcessId) return;
-        logProcess = null;
-        onClose();
-    });
-
-    logProcess.on('error', (err) => {
-        // Only update state if this is still the current log process
-        if (currentProcessId !== logProcessId) return;
-        onError(err.message);
-        logProcess = null;
-    });
-
-    return true;
-}
-
-export function stopLogStream(): boolean {
-    let stopped = false;
-
-    if (stdoutLogProcess) {
-        stdoutLogProcess.kill('SIGTERM');
-        stdoutLogProcess = null;
-        stopped = true;
-    }
-
-    if (logProcess) {
-        logProcess.kill('SIGTERM');
-        logProcess = null;
-        stopped = true;
+    for (const spec of specs) {
+        if (streams.start(spec, handlers)) {
+            session ??= spec.name;
+        }
     }
 
-    return stopped;
-}
-
-export function isLogStreamRunning(): boolean {
-    return logProcess !== null || stdoutLogProcess !== null;
+    return session !== undefined;
 }
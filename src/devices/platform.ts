@@ -0,0 +1,102 @@
+import type { Device } from './manager';
+
+/** Device.variant of the Mac run destinations */
+export const MAC_CATALYST = 'Mac Catalyst';
+export const DESIGNED_FOR_IPAD = 'Designed for iPad';
+
+// The variants as `xcodebuild -showdestinations` names them
+const DESTINATION_VARIANTS: { [variant: string]: string } = {
+    [MAC_CATALYST]: 'variant=Mac Catalyst',
+    [DESIGNED_FOR_IPAD]: 'arch=arm64,variant=Designed for [iPad,iPhone]'
+};
+
+interface PlatformInfo {
+    /** Operating system shown next to the version */
+    os: string;
+    /** SDK name, also the suffix of the product folder (Debug-iphonesimulator) */
+    sdk: string;
+}
+
+// Keyed by Device.platform, which uses the platform names of xcodebuild destinations
+const PLATFORMS: { [platform: string]: PlatformInfo } = {
+    'iOS Simulator': { os: 'iOS', sdk: 'iphonesimulator' },
+    'iOS': { os: 'iOS', sdk: 'iphoneos' },
+    'watchOS Simulator': { os: 'watchOS', sdk: 'watchsimulator' },
+    'watchOS': { os: 'watchOS', sdk: 'watchos' },
+    'tvOS Simulator': { os: 'tvOS', sdk: 'appletvsimulator' },
+    'tvOS': { os: 'tvOS', sdk: 'appletvos' },
+    'visionOS Simulator': { os: 'visionOS', sdk: 'xrsimulator' },
+    'visionOS': { os: 'visionOS', sdk: 'xros' },
+    'macOS': { os: 'macOS', sdk: 'macosx' }
+};
+
+/**
+ * Device.platform for an operating system as simctl and devicectl name it.
+ * visionOS still goes by xrOS in runtime identifiers.
+ */
+export function devicePlatform(os: string, simulator: boolean): string {
+    const name = os === 'xrOS' ? 'visionOS' : os;
+    return simulator ? `${name} Simulator` : name;
+}
+
+/**
+ * Platform and version of a simulator runtime,
+ * e.g. "com.apple.CoreSimulator.SimRuntime.watchOS-10-2" -> watchOS Simulator, 10.2
+ */
+export function parseRuntime(runtime: string): { platform: string; osVersion: string } | undefined {
+    const match = runtime.match(/SimRuntime\.(iOS|watchOS|tvOS|xrOS|visionOS)-(\d+)-(\d+)/);
+    return match
+        ? { platform: devicePlatform(match[1], true), osVersion: `${match[2]}.${match[3]}` }
+        : undefined;
+}
+
+/**
+ * "watchOS" for a watchOS simulator or device.
+ */
+export function osName(device: Device): string {
+    return PLATFORMS[device.platform]?.os ?? device.platform;
+}
+
+export function getDestination(device: Device): string {
+    if (device.variant) {
+        return `platform=macOS,${DESTINATION_VARIANTS[device.variant] ?? `variant=${device.variant}`}`;
+    }
+    return `platform=${device.platform},id=${device.udid}`;
+}
+
+/**
+ * The SDK the app is built with for the device.
+ */
+export function sdkName(device: Device): string | undefined {
+    switch (device.variant) {
+        case MAC_CATALYST:
+            return 'maccatalyst';
+        case DESIGNED_FOR_IPAD:
+            return 'iphoneos';
+        default:
+            return PLATFORMS[device.platform]?.sdk;
+    }
+}
+
+/**
+ * Folder under Build/Products the app ends up in, e.g. Debug-watchsimulator.
+ */
+export function productFolder(device: Device, configuration: string): string | undefined {
+    const sdk = sdkName(device);
+    if (!sdk) {
+        return undefined;
+    }
+    return sdk === 'macosx' ? configuration : `${configuration}-${sdk}`;
+}
+
+/**
+ * Whether the app can run on the device, given the platforms of its target
+ * (see ProjectTarget.platforms). Unknown platforms allow every device.
+ */
+export function isCompatible(device: Device, platforms: string[] | undefined): boolean {
+    if (!platforms) {
+        return true;
+    }
+    const platform = device.variant === DESIGNED_FOR_IPAD ? 'macdesignedforipad' : sdkName(device);
+    return platform === undefined || platforms.includes(platform);
+}
@@ -0,0 +1,213 @@
+import type { Device } from './manager';
+import { CancellationToken, ProcessCancelledError } from '../process/runner';
+
+/**
+ * A process whose output is an app's log, see LogStreamSpec.
+ */
+export interface LogCommand {
+    command: string;
+    args: string[];
+}
+
+export type SystemLogStyle = 'compact' | 'ndjson';
+
+/**
+ * Unified logging predicate for an app: its own process plus any subsystem under its bundle ID.
+ */
+export function systemLogPredicate(bundleId: string, processName?: string): string {
+    const subsystem = `subsystem BEGINSWITH "${bundleId}"`;
+    return processName ? `process == "${processName}" OR ${subsystem}` : subsystem;
+}
+
+/**
+ * One way of talking to devices: simctl for simulators, devicectl or older
+ * tools for physical devices, or this Mac. Operations a transport can't do are left out,
+ * and the next provider that handles the device is asked instead.
+ */
+export interface DeviceProvider {
+    /** Stored on the devices it lists, see Device.provider */
+    readonly id: string;
+    /** Only lists devices when the provider with this ID failed or found none */
+    readonly fallbackFor?: string;
+    /** Whether it can also drive devices that another provider listed */
+    handles(device: Device): boolean;
+    listDevices(): Promise<Device[]>;
+    /** Gets the device ready to install to, e.g. boots a simulator and shows its window */
+    boot?(device: Device, token?: CancellationToken): Promise<void>;
+    shutdown?(device: Device): Promise<void>;
+    install?(device: Device, appPath: string, token?: CancellationToken): Promise<void>;
+    launch?(device: Device, bundleId: string, token?: CancellationToken): Promise<void>;
+    /** Launches the app suspended until a debugger attaches and returns its process ID */
+    launchForDebugging?(device: Device, bundleId: string): Promise<number>;
+    terminate?(device: Device, bundleId: string): Promise<void>;
+    uninstall?(device: Device, bundleId: string): Promise<void>;
+    /** Undefined when it can't be determined right now */
+    isAppInstalled?(device: Device, bundleId: string): Promise<boolean | undefined>;
+    /** Launches the app with its stdout and stderr attached */
+    consoleLog?(device: Device, bundleId: string): LogCommand | undefined;
+    /** Streams the unified log of the app; undefined if the style isn't available */
+    systemLog?(device: Device, bundleId: string, processName: string | undefined, style: SystemLogStyle): LogCommand | undefined;
+}
+
+export interface DeviceListing {
+    devices: Device[];
+    /** IDs of providers that failed and weren't stood in for by a fallback */
+    failed: string[];
+    /** IDs of fallback providers that weren't asked, see ListOptions.fallbacks */
+    skipped: string[];
+}
+
+export interface ListOptions {
+    /** False leaves fallback providers out, e.g. in background polls; defaults to true */
+    fallbacks?: boolean;
+}
+
+export type DeviceOperation = Exclude<keyof DeviceProvider, 'id' | 'fallbackFor' | 'handles' | 'listDevices'>;
+
+type ProviderWith<K extends DeviceOperation> = DeviceProvider & Required<Pick<DeviceProvider, K>>;
+
+const OPERATION_NAMES: { [K in DeviceOperation]: string } = {
+    boot: 'booting',
+    shutdown: 'shutting down',
+    install: 'installing apps',
+    launch: 'launching apps',
+    launchForDebugging: 'debugging',
+    terminate: 'stopping apps',
+    uninstall: 'uninstalling apps',
+    isAppInstalled: 'looking up installed apps',
+    consoleLog: 'console output',
+    systemLog: 'system logs'
+};
+
+/**
+ * The registered providers, in the order they are asked.
+ */
+export class DeviceProviders {
+    private readonly providers: DeviceProvider[] = [];
+
+    constructor(providers: DeviceProvider[] = []) {
+        providers.forEach(provider => this.register(provider));
+    }
+
+    get all(): readonly DeviceProvider[] {
+        return this.providers;
+    }
+
+    register(provider: DeviceProvider): { dispose(): void } {
+        if (this.providers.some(p => p.id === provider.id)) {
+            throw new Error(`A device provider with ID "${provider.id}" is already registered`);
+        }
+        this.providers.push(provider);
+
+        return {
+            dispose: () => {
+                const index = this.providers.indexOf(provider);
+                if (index !== -1) {
+                    this.providers.splice(index, 1);
+                }
+            }
+        };
+    }
+
+    /**
+     * Devices of all providers. A device listed by more than one keeps the entry
+     * of the first; providers that fail are left out. Fallback providers are
+     * only asked when the provider they stand in for comes up empty.
+     */
+    async listDevices(): Promise<Device[]> {
+        return (await this.list()).devices;
+    }
+
+    /**
+     * Like listDevices, and also tells which providers failed, so that a device
+     * missing from the list isn't mistaken for one that's gone.
+     */
+    async list(options: ListOptions = {}): Promise<DeviceListing> {
+        const list = async (provider: DeviceProvider): Promise<Device[] | undefined> => {
+            try {
+                const devices = await provider.listDevices();
+                return devices.map(device => ({ ...device, provider: provider.id }));
+            } catch (error) {
+                console.error(`Failed to list ${provider.id} devices:`, error);
+                return undefined;
+            }
+        };
+
+        const lists = new Map<DeviceProvider, Device[] | undefined>();
+        const primary = this.providers.filter(p => p.fallbackFor === undefined);
+        (await Promise.all(primary.map(list))).forEach((devices, i) => lists.set(primary[i], devices));
+
+        const needed = this.providers.filter(p => {
+            const target = primary.find(t => t.id === p.fallbackFor);
+            return p.fallbackFor !== undefined && (!target || !lists.get(target)?.length);
+        });
+        const fallbacks = options.fallbacks === false ? [] : needed;
+        const skipped = needed.filter(p => !fallbacks.includes(p));
+        (await Promise.all(fallbacks.map(list))).forEach((devices, i) => lists.set(fallbacks[i], devices));
+
+        const seen = new Set<string>();
+        const devices = this.providers
+            .flatMap(provider => lists.get(provider) ?? [])
+            .filter(device => !seen.has(device.udid) && seen.add(device.udid));
+        const failed = this.providers
+            .filter(provider => lists.has(provider) && lists.get(provider) === undefined)
+            // Not asking the fallback isn't a failure either, its devices are still known
+            .filter(provider => !needed.some(f => f.fallbackFor === provider.id && (skipped.includes(f) || lists.get(f) !== undefined)))
+            .map(provider => provider.id);
+
+        return { devices, failed, skipped: skipped.map(p => p.id) };
+    }
+
+    /**
+     * The provider that listed the device, then the others that handle it.
+     */
+    providersFor(device: Device): DeviceProvider[] {
+        const owner = this.providers.filter(p => p.id === device.provider);
+        const others = this.providers.filter(p => p.id !== device.provider && p.handles(device));
+        return [...owner, ...others];
+    }
+
+    supports(device: Device, operation: DeviceOperation): boolean {
+        return this.providersFor(device).some(p => p[operation] !== undefined);
+    }
+
+    /**
+     * Runs the operation with the first provider of the device that has it,
+     * moving on to the next one when it fails. Rejects with the first failure,
+     * or right away when the operation was cancelled.
+     */
+    async perform<K extends DeviceOperation, T>(device: Device, operation: K, action: (provider: ProviderWith<K>) => Promise<T>): Promise<T> {
+        const providers = this.providersFor(device).filter((p): p is ProviderWith<K> => p[operation] !== undefined);
+        if (providers.length === 0) {
+            throw new Error(`${device.name} doesn't support ${OPERATION_NAMES[operation]}`);
+        }
+
+        let firstError: unknown;
+        for (const provider of providers) {
+            try {
+                return await action(provider);
+            } catch (error) {
+                if (error instanceof ProcessCancelledError) {
+                    throw error;
+                }
+                firstError ??= error;
+            }
+        }
+        throw firstError;
+    }
+
+    /**
+     * The first result of a synchronous operation that isn't undefined.
+     */
+    find<K extends DeviceOperation, T>(device: Device, operation: K, action: (provider: ProviderWith<K>) => T | undefined): T | undefined {
+        for (const provider of this.providersFor(device)) {
+            if (provider[operation] !== undefined) {
+                const result = action(provider as ProviderWith<K>);
+                if (result !== undefined) {
+                    return result;
+                }
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import { Device, listDevicesWithFailures } from './manager';
+import { DeviceListing, ListOptions } from './provider';
+
+export interface DeviceChanges {
+    added: Device[];
+    removed: Device[];
+    changed: Device[];
+}
+
+/**
+ * Compares two device lists by UDID. A device counts as changed when its
+ * name, state or availability differs.
+ */
+export function diffDevices(previous: Device[], next: Device[]): DeviceChanges {
+    const before = new Map(previous.map(d => [d.udid, d]));
+    const after = new Map(next.map(d => [d.udid, d]));
+
+    return {
+        added: next.filter(d => !before.has(d.udid)),
+        removed: previous.filter(d => !after.has(d.udid)),
+        changed: next.filter(d => {
+            const old = before.get(d.udid);
+            return old !== undefined && (
+                old.name !== d.name ||
+                old.state !== d.state ||
+                old.isAvailable !== d.isAvailable
+            );
+        })
+    };
+}
+
+function hasChanges(changes: DeviceChanges): boolean {
+    return changes.added.length + changes.removed.length + changes.changed.length > 0;
+}
+
+/**
+ * Single source of truth for connected devices and simulators. Polls simctl and
+ * devicectl in the background and notifies consumers when anything changes.
+ */
+export class DeviceRegistry implements vscode.Disposable {
+    private devices: Device[] = [];
+    private loaded = false;
+    private complete = false;
+    private pending: Promise<Device[]> | undefined;
+    private pendingWithFallbacks = false;
+    private timer: NodeJS.Timeout | undefined;
+
+    private readonly _onDidChange = new vscode.EventEmitter<DeviceChanges>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly load: (options: ListOptions) => Promise<DeviceListing> = listDevicesWithFailures) {}
+
+    get all(): Device[] {
+        return this.devices;
+    }
+
+    get isLoaded(): boolean {
+        return this.loaded;
+    }
+
+    /**
+     * Whether the last refresh listed something and every provider answered.
+     * Only then does a missing device mean it's gone.
+     */
+    get isComplete(): boolean {
+        return this.complete;
+    }
+
+    get(udid: string): Device | undefined {
+        return this.devices.find(d => d.udid === udid);
+    }
+
+    /**
+     * Reloads the device list now. Concurrent calls share the same reload, unless
+     * it leaves out the fallback providers this one asks for.
+     */
+    refresh(options: ListOptions = {}): Promise<Device[]> {
+        const fallbacks = options.fallbacks !== false;
+        if (this.pending && fallbacks && !this.pendingWithFallbacks) {
+            return this.pending.catch(() => undefined).then(() => this.refresh(options));
+        }
+        if (!this.pending) {
+            this.pendingWithFallbacks = fallbacks;
+            this.pending = this.load(options)
+                .then(({ devices: listed, failed, skipped }) => {
+                    // Devices of fallback providers that weren't asked are still there
+                    const kept = this.devices.filter(d =>
+                        d.provider !== undefined && skipped.includes(d.provider) && !listed.some(l => l.udid === d.udid));
+                    const devices = [...listed, ...kept];
+                    const changes = diffDevices(this.devices, devices);
+                    this.devices = devices;
+                    this.loaded = true;
+                    this.complete = devices.length > 0 && failed.length === 0;
+                    if (hasChanges(changes)) {
+                        this._onDidChange.fire(changes);
+                    }
+                    return devices;
+                })
+                .finally(() => {
+                    this.pending = undefined;
+                });
+        }
+        return this.pending;
+    }
+
+    /**
+     * Polls every `seconds` while the window is focused. Zero turns polling off.
+     * Fallback providers like xctrace are too slow to poll; only explicit refreshes ask them.
+     */
+    startPolling(seconds: number) {
+        this.stopPolling();
+        if (seconds <= 0) {
+            return;
+        }
+        this.timer = setInterval(() => {
+            if (vscode.window.state.focused) {
+                this.refresh({ fallbacks: false }).catch(error => console.error('Failed to refresh devices:', error));
+            }
+        }, seconds * 1000);
+    }
+
+    stopPolling() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    dispose() {
+        this.stopPolling();
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,217 @@
+import { CancellationToken, run } from '../process/runner';
+import type { Device } from './manager';
+import { parseRuntime } from './platform';
+import { DeviceProvider, LogCommand, SystemLogStyle, systemLogPredicate } from './provider';
+
+interface SimctlDevice {
+    udid: string;
+    name: string;
+    state: string;
+    isAvailable: boolean;
+}
+
+interface SimctlOutput {
+    devices: { [runtime: string]: SimctlDevice[] };
+}
+
+export interface SimulatorDeviceType {
+    name: string;
+    identifier: string;
+    productFamily?: string;
+}
+
+export interface SimulatorRuntime {
+    name: string;
+    identifier: string;
+    version: string;
+    isAvailable: boolean;
+    supportedDeviceTypes: string[];
+}
+
+/**
+ * Simulators, driven by simctl.
+ */
+export const simulatorProvider: DeviceProvider = {
+    id: 'simulator',
+
+    handles(device: Device): boolean {
+        return device.type === 'simulator';
+    },
+
+    async listDevices(): Promise<Device[]> {
+        const { stdout } = await run('xcrun', ['simctl', 'list', 'devices', 'available', '--json']);
+        const data: SimctlOutput = JSON.parse(stdout);
+
+        const devices: Device[] = [];
+
+        for (const [runtime, simDevices] of Object.entries(data.devices)) {
+            const { platform, osVersion } = parseRuntime(runtime) ?? { platform: 'iOS Simulator', osVersion: 'Unknown' };
+
+            for (const device of simDevices) {
+                if (device.isAvailable) {
+                    devices.push({
+                        udid: device.udid,
+                        name: device.name,
+                        type: 'simulator',
+                        state: device.state,
+                        platform,
+                        osVersion,
+                        isAvailable: device.isAvailable
+                    });
+                }
+            }
+        }
+
+        return devices;
+    },
+
+    async boot(device: Device, token?: CancellationToken): Promise<void> {
+        try {
+            await run('xcrun', ['simctl', 'boot', device.udid], { token });
+        } catch (error: any) {
+            // Ignore "already booted" error
+            if (!error.message?.includes('Unable to boot device in current state: Booted')) {
+                throw error;
+            }
+        }
+        await run('open', ['-a', 'Simulator'], { token });
+    },
+
+    async shutdown(device: Device): Promise<void> {
+        await shutdownSimulator(device.udid);
+    },
+
+    async install(device: Device, appPath: string, token?: CancellationToken): Promise<void> {
+        await run('xcrun', ['simctl', 'install', device.udid, appPath], { token });
+    },
+
+    async launch(device: Device, bundleId: string, token?: CancellationToken): Promise<void> {
+        await run('xcrun', ['simctl', 'launch', device.udid, bundleId], { token });
+    },
+
+    async launchForDebugging(device: Device, bundleId: string): Promise<number> {
+        // Output looks like "com.example.App: 12345"
+        const { stdout } = await run('xcrun', [
+            'simctl', 'launch', '--wait-for-debugger', '--terminate-running-process', device.udid, bundleId
+        ]);
+
+        const pidMatch = stdout.match(/:\s*(\d+)\s*$/m);
+        if (!pidMatch) {
+            throw new Error(`Unexpected launch output: ${stdout.trim()}`);
+        }
+
+        return parseInt(pidMatch[1], 10);
+    },
+
+    async terminate(device: Device, bundleId: string): Promise<void> {
+        await run('xcrun', ['simctl', 'terminate', device.udid, bundleId]);
+    },
+
+    async uninstall(device: Device, bundleId: string): Promise<void> {
+        await run('xcrun', ['simctl', 'uninstall', device.udid, bundleId]);
+    },
+
+    async isAppInstalled(device: Device, bundleId: string): Promise<boolean | undefined> {
+        // simctl can only look up apps on booted simulators
+        if (device.state !== 'Booted') {
+            return undefined;
+        }
+        try {
+            await run('xcrun', ['simctl', 'get_app_container', device.udid, bundleId]);
+            return true;
+        } catch {
+            return false;
+        }
+    },
+
+    consoleLog(device: Device, bundleId: string): LogCommand {
+        return {
+            command: 'xcrun',
+            args: ['simctl', 'launch', '--console-pty', '--terminate-running-process', device.udid, bundleId]
+        };
+    },
+
+    systemLog(device: Device, bundleId: string, processName: string | undefined, style: SystemLogStyle): LogCommand {
+        return {
+            command: 'xcrun',
+            args: [
+                'simctl', 'spawn', device.udid,
+                'log', 'stream',
+                '--level', 'debug',
+                '--style', style,
+                '--predicate', systemLogPredicate(bundleId, processName)
+            ]
+        };
+    }
+};
+
+export async function shutdownSimulator(udid: string): Promise<void> {
+    try {
+        await run('xcrun', ['simctl', 'shutdown', udid]);
+    } catch (error: any) {
+        // Ignore "already shut down" error
+        if (!error.message?.includes('Unable to shutdown device in current state: Shutdown')) {
+            throw error;
+        }
+    }
+}
+
+export async function listDeviceTypes(): Promise<SimulatorDeviceType[]> {
+    const { stdout } = await run('xcrun', ['simctl', 'list', 'devicetypes', '--json']);
+    const data = JSON.parse(stdout);
+
+    return (data.devicetypes || []).map((type: any) => ({
+        name: type.name,
+        identifier: type.identifier,
+        productFamily: type.productFamily
+    }));
+}
+
+export async function listRuntimes(): Promise<SimulatorRuntime[]> {
+    const { stdout } = await run('xcrun', ['simctl', 'list', 'runtimes', '--json']);
+    const data = JSON.parse(stdout);
+
+    return (data.runtimes || []).map((runtime: any) => ({
+        name: runtime.name,
+        identifier: runtime.identifier,
+        version: runtime.version,
+        isAvailable: runtime.isAvailable !== false,
+        supportedDeviceTypes: (runtime.supportedDeviceTypes || []).map((type: any) => type.identifier)
+    }));
+}
+
+/**
+ * Creates a simulator and returns its UDID.
+ */
+export async function createSimulator(name: string, deviceTypeId: string, runtimeId: string): Promise<string> {
+    const { stdout } = await run('xcrun', ['simctl', 'create', name, deviceTypeId, runtimeId]);
+    return stdout.trim();
+}
+
+/**
+ * Clones a (shut down) simulator and returns the UDID of the copy.
+ */
+export async function cloneSimulator(udid: string, name: string): Promise<string> {
+    const { stdout } = await run('xcrun', ['simctl', 'clone', udid, name]);
+    return stdout.trim();
+}
+
+export async function renameSimulator(udid: string, name: string): Promise<void> {
+    await run('xcrun', ['simctl', 'rename', udid, name]);
+}
+
+export async function eraseSimulator(udid: string): Promise<void> {
+    await run('xcrun', ['simctl', 'erase', udid]);
+}
+
+export async function deleteUnavailableSimulators(): Promise<void> {
+    await run('xcrun', ['simctl', 'delete', 'unavailable']);
+}
+
+/**
+ * Returns the data container of the app on a booted simulator.
+ */
+export async function getAppContainer(device: Device, bundleId: string): Promise<string> {
+    const { stdout } = await run('xcrun', ['simctl', 'get_app_container', device.udid, bundleId, 'data']);
+    return stdout.trim();
+}
@@ -1,26 +1,80 @@
 import * as vscode from 'vscode';
-import { findXcodeProjects, getSchemes, XcodeProject, Scheme, getBundleIdentifier } from './xcode/project';
-import { build, stopBuild } from './xcode/build';
-import { Device, listAllDevices, bootSimulator, openSimulatorApp, installApp, launchApp, startLogStream, stopLogStream, isLogStreamRunning } from './devices/manager';
+import * as path from 'path';
+import { findXcodeProjects, getSchemes, getConfigurations, XcodeProject, Scheme, getBundleIdentifier, getSupportedPlatforms, projectDirectory } from './xcode/project';
+import { build, BuildResult } from './xcode/build';
+import { clearBuildSettingsCache, resolveAppProduct } from './xcode/buildSettings';
+import {
+    GeneratorManifest,
+    findGeneratorManifests,
+    findGeneratedProject,
+    generateProject,
+    generatorName,
+    isGeneratedProjectStale
+} from './xcode/generator';
+import { DependencyIssue, checkDependencies, resolveDependencies } from './xcode/dependencies';
+import { BuildRecord, updateBuildRecord } from './xcode/buildProgress';
+import { BuildTimingHistory, slowestSteps } from './xcode/buildTiming';
+import { BuildReport } from './ui/buildReport';
+import { publishBuildDiagnostics } from './xcode/diagnostics';
+import { Device, LogMode, bootDevice, needsBoot, installApp, launchApp, startLogStream } from './devices/manager';
+import { getDestination, isCompatible, osName } from './devices/platform';
+import { LogStreamManager } from './logs/streams';
+import { LogHistory, LogSessionWriter, getCommitHash } from './logs/history';
+import { showLogHistory } from './ui/logHistory';
 import { StatusBarManager } from './ui/statusBar';
+import { ProjectSelection, ProjectState, deviceSelection } from './ui/projectSelection';
+import { registerDebugger } from './debug/provider';
+import { XCTestController } from './testing/controller';
+import { DevicesTreeProvider, registerDevicesView } from './ui/devicesTree';
+import { DeviceRegistry } from './devices/registry';
+import { DeviceConsoles, pickDevices, runOnDevices } from './run/multiDestination';
+import { ConcurrentBuildMode, Job, JobRunner, isCancellation } from './run/job';
+import { DEFAULT_WATCH_EXCLUDE, DEFAULT_WATCH_INCLUDE, WatchMode, WatchOptions } from './run/watch';
+import { LogViewer } from './ui/logViewer';
+import {
+    SimulatorAction,
+    SimulatorActionButton,
+    getSimulatorButtons,
+    pickSimulator,
+    runSimulatorAction,
+    createSimulatorInteractive,
+    deleteUnavailableInteractive
+} from './ui/simulatorActions';
 
 let statusBar: StatusBarManager;
 let outputChannel: vscode.OutputChannel;
 let logOutputChannel: vscode.OutputChannel;
+let diagnosticCollection: vscode.DiagnosticCollection;
 let currentProject: XcodeProject | undefined;
+let generatorManifests: GeneratorManifest[] = [];
 let schemes: Scheme[] = [];
+let configurations: string[] = [];
 let extensionContext: vscode.ExtensionContext;
+let projectSelection: ProjectSelection;
 let currentBundleId: string | undefined;
+let currentProcessName: string | undefined;
+let testController: XCTestController;
+let devicesTree: DevicesTreeProvider;
+let deviceRegistry: DeviceRegistry;
+let deviceConsoles: DeviceConsoles;
+let watchMode: WatchMode;
+const appLogStreams = new LogStreamManager();
+let logHistory: LogHistory;
+let buildTimingHistory: BuildTimingHistory;
+let consoleSession: LogSessionWriter | undefined;
+// Build & Run, one at a time
+const jobs = new JobRunner(() =>
+    vscode.workspace.getConfiguration('simbuild').get<ConcurrentBuildMode>('concurrentBuilds', 'restart'));
 
 // Storage keys
-const STORAGE_KEY_SCHEME = 'simbuild.selectedScheme';
-const STORAGE_KEY_DEVICE = 'simbuild.selectedDevice';
+const STORAGE_KEY_BUILD_HISTORY = 'simbuild.buildHistory';
 
 export async function activate(context: vscode.ExtensionContext) {
     console.log('SimBuild is now active!');
 
     // Save context for later use
     extensionContext = context;
+    projectSelection = new ProjectSelection(context.workspaceState);
 
     // Create output channels
     outputChannel = vscode.window.createOutputChannel('SimBuild');
@@ -28,30 +82,135 @@ export async function activate(context: vscode.ExtensionContext) {
 
     logOutputChannel = vscode.window.createOutputChannel('SimBuild Log');
 
+    // Timings of every build, for the build report
+    buildTimingHistory = new BuildTimingHistory(
+        path.join((context.storageUri ?? context.globalStorageUri).fsPath, 'build-timings.json')
+    );
+
+    // Console output of every launch is kept on disk
+    logHistory = new LogHistory(
+        path.join((context.storageUri ?? context.globalStorageUri).fsPath, 'console-history'),
+        () => {
+            const config = vscode.workspace.getConfiguration('simbuild');
+            return {
+                maxSessions: config.get<number>('logHistoryMaxSessions', 50),
+                maxAgeDays: config.get<number>('logHistoryMaxAgeDays', 14)
+            };
+        }
+    );
+
+    // Per-device consoles for runs on multiple devices
+    deviceConsoles = new DeviceConsoles();
+    context.subscriptions.push(deviceConsoles);
+
+    // Rebuild and relaunch on save
+    watchMode = new WatchMode();
+    context.subscriptions.push(
+        watchMode,
+        watchMode.onDidChangeFiles(() => rebuildOnChange())
+    );
+
+    // Build errors and warnings shown in the Problems panel
+    diagnosticCollection = vscode.languages.createDiagnosticCollection('simbuild');
+
     // Create status bar
     statusBar = new StatusBarManager();
 
-    // Initialize - find Xcode project
-    await initialize();
+    // Live device state, polled in the background
+    deviceRegistry = new DeviceRegistry();
+    deviceRegistry.startPolling(getDevicePollInterval());
+    context.subscriptions.push(
+        deviceRegistry,
+        deviceRegistry.onDidChange(() => reconcileCurrentDevice()),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('simbuild.devicePollInterval')) {
+                deviceRegistry.startPolling(getDevicePollInterval());
+            }
+            if (watchMode.isActive && ['watchInclude', 'watchExclude', 'watchDebounce'].some(key => e.affectsConfiguration(`simbuild.${key}`))) {
+                startWatching();
+            }
+        })
+    );
+
+    // XCTest integration with the Test Explorer
+    testController = new XCTestController({
+        getProject: () => currentProject,
+        getScheme: () => statusBar.currentScheme,
+        getDevice: () => statusBar.currentDevice,
+        getDerivedDataPath: () =>
+            vscode.workspace.getConfiguration('simbuild').get<string>('derivedDataPath') || undefined
+    });
+    context.subscriptions.push(testController);
 
     // Register commands
     context.subscriptions.push(
         vscode.commands.registerCommand('simbuild.build', () => runBuild(false)),
         vscode.commands.registerCommand('simbuild.run', () => runBuild(true)),
+        vscode.commands.registerCommand('simbuild.runOnMultiple', runOnMultiple),
+        vscode.commands.registerCommand('simbuild.selectProject', selectProject),
         vscode.commands.registerCommand('simbuild.selectSimulator', selectDevice),
         vscode.commands.registerCommand('simbuild.selectScheme', selectScheme),
+        vscode.commands.registerCommand('simbuild.selectConfiguration', selectConfiguration),
         vscode.commands.registerCommand('simbuild.clean', () => runBuild(false, true)),
-        vscode.commands.registerCommand('simbuild.stop', () => {
-            if (stopBuild()) {
-                vscode.window.showInformationMessage('Build stopped');
-                statusBar.setBuilding(false);
+        vscode.commands.registerCommand('simbuild.stop', () => jobs.cancel()),
+        vscode.commands.registerCommand('simbuild.toggleWatch', toggleWatch),
+        vscode.commands.registerCommand('simbuild.refresh', refresh),
+        vscode.commands.registerCommand('simbuild.createSimulator', async () => {
+            if (await createSimulatorInteractive()) {
+                await loadDevices();
+            }
+        }),
+        vscode.commands.registerCommand('simbuild.shutdownSimulator', (device?: Device) => simulatorCommand('shutdown', device)),
+        vscode.commands.registerCommand('simbuild.eraseSimulator', (device?: Device) => simulatorCommand('erase', device)),
+        vscode.commands.registerCommand('simbuild.renameSimulator', (device?: Device) => simulatorCommand('rename', device)),
+        vscode.commands.registerCommand('simbuild.cloneSimulator', (device?: Device) => simulatorCommand('clone', device)),
+        vscode.commands.registerCommand('simbuild.deleteUnavailableSimulators', async () => {
+            if (await deleteUnavailableInteractive()) {
+                await loadDevices();
             }
         }),
-        vscode.commands.registerCommand('simbuild.refresh', refresh),
         vscode.commands.registerCommand('simbuild.startLog', startLog),
-        vscode.commands.registerCommand('simbuild.stopLog', stopLog)
+        vscode.commands.registerCommand('simbuild.stopLog', stopLog),
+        vscode.commands.registerCommand('simbuild.selectLogMode', selectLogMode),
+        vscode.commands.registerCommand('simbuild.openLogViewer', openLogViewer),
+        vscode.commands.registerCommand('simbuild.openLogHistory', () => showLogHistory(logHistory)),
+        vscode.commands.registerCommand('simbuild.showBuildReport', () => BuildReport.show(buildTimingHistory)),
+        vscode.commands.registerCommand('simbuild.generateProject', generateProjectCommand)
+    );
+
+    // Debugging with LLDB reuses the selected project, scheme and device
+    context.subscriptions.push(
+        registerDebugger({
+            ensureBuildTarget,
+            findDevice: async (nameOrUdid) => {
+                // The live state decides whether the simulator needs booting
+                const devices = await deviceRegistry.refresh({ fallbacks: false }).catch(() => deviceRegistry.all);
+                const selected = statusBar.currentDevice;
+                return nameOrUdid === undefined
+                    ? selected && (devices.find(d => d.udid === selected.udid) ?? selected)
+                    : devices.find(d => d.udid === nameOrUdid || d.name === nameOrUdid);
+            },
+            runJob: (name, work) => runJob(name, work),
+            buildApp: (job, device) => buildCurrentProject(job, false, device),
+            getBundleId: (result) => result.bundleId
+                ? Promise.resolve(result.bundleId)
+                : getCurrentBundleId(result.appPath!)
+        })
     );
 
+    // Devices view in the activity bar
+    const devicesView = registerDevicesView({
+        getCurrentDevice: () => statusBar.currentDevice,
+        selectDevice: setCurrentDevice,
+        getBundleId: getAppBundleId
+    }, deviceRegistry);
+    devicesTree = devicesView.provider;
+    context.subscriptions.push(devicesView.disposable);
+
+    // Initialize - find Xcode project. Commands are registered first: this can
+    // wait on the user, e.g. to pick a project
+    await initialize();
+
     // Watch for workspace changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeWorkspaceFolders(() => initialize())
@@ -60,96 +219,222 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(statusBar);
     context.subscriptions.push(outputChannel);
     context.subscriptions.push(logOutputChannel);
+    context.subscriptions.push(diagnosticCollection);
 }
 
-async function initialize() {
+const NO_PROJECT_MESSAGE = 'No Xcode project found. Open a folder with .xcodeproj, .xcworkspace, Package.swift, project.yml or Project.swift';
+
+const PROJECT_TYPE_LABELS: { [type in XcodeProject['type']]: string } = {
+    workspace: 'Workspace',
+    project: 'Project',
+    package: 'Swift Package'
+};
+
+async function initialize(offerGeneration = true) {
     console.log('SimBuild: Initializing...');
     const projects = await findXcodeProjects();
+    generatorManifests = await findGeneratorManifests();
     console.log('SimBuild: Found projects:', projects.length, projects);
 
     if (projects.length === 0) {
         console.log('SimBuild: No projects found, hiding status bar');
         statusBar.hide();
+
+        // The project isn't committed; offer to generate it from the manifest
+        if (offerGeneration && generatorManifests.length > 0) {
+            // Not awaited: a toast that is never answered would keep activation pending
+            const manifest = generatorManifests[0];
+            void vscode.window.showInformationMessage(
+                `SimBuild: Found ${path.basename(manifest.path)} but no Xcode project. Generate it with ${generatorName(manifest.kind)}?`,
+                'Generate'
+            ).then(async choice => {
+                if (choice === 'Generate' && await runGenerator(manifest)) {
+                    await initialize(false);
+                }
+            });
+        }
         return;
     }
 
-    // Auto-select project if only one exists
-    if (projects.length === 1) {
-        currentProject = projects[0];
+    const project = await chooseProject(projects);
+    if (project) {
+        await activateProject(project);
     } else {
-        // Let user choose
-        const items = projects.map(p => ({
-            label: p.name,
-            description: p.type === 'workspace' ? 'Workspace' : 'Project',
-            project: p
-        }));
-
-        const selected = await vscode.window.showQuickPick(items, {
-            placeHolder: 'Select Xcode project'
-        });
-
-        if (selected) {
-            currentProject = selected.project;
-        }
+        // Nothing picked yet, the project item lets the user choose later
+        currentProject = undefined;
+        statusBar.setProject(undefined);
+        statusBar.show();
     }
+}
 
-    if (currentProject) {
-        // Load schemes
-        schemes = await getSchemes(currentProject);
+/**
+ * URI of the workspace folder a project belongs to, the key its selection is saved under.
+ */
+function workspaceFolderOf(project: XcodeProject): string {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(project.path));
+    return (folder?.uri ?? vscode.Uri.file(path.dirname(project.path))).toString();
+}
 
-        // Restore saved scheme
-        const savedScheme = extensionContext.workspaceState.get<string>(STORAGE_KEY_SCHEME);
-        if (savedScheme && schemes.some(s => s.name === savedScheme)) {
-            statusBar.setScheme(savedScheme);
-        } else {
-            // Auto-select scheme if configured and only one exists
-            const config = vscode.workspace.getConfiguration('simbuild');
-            if (config.get('autoSelectScheme') && schemes.length === 1) {
-                statusBar.setScheme(schemes[0].name);
-            }
-        }
+/**
+ * Workspace folder URIs, the folder of the active editor first.
+ */
+function preferredFolders(): string[] {
+    const folders = (vscode.workspace.workspaceFolders ?? []).map(f => f.uri.toString());
+    const editor = vscode.window.activeTextEditor;
+    const active = editor && vscode.workspace.getWorkspaceFolder(editor.document.uri)?.uri.toString();
+    return active ? [active, ...folders.filter(f => f !== active)] : folders;
+}
 
-        // Restore saved device
-        const savedDevice = extensionContext.workspaceState.get<Device>(STORAGE_KEY_DEVICE);
-        if (savedDevice) {
-            statusBar.setDevice(savedDevice);
-        }
+async function pickProject(projects: XcodeProject[]): Promise<XcodeProject | undefined> {
+    const items = projects.map(p => ({
+        label: p.name,
+        description: PROJECT_TYPE_LABELS[p.type] + (p.path === currentProject?.path ? ' · Current' : ''),
+        detail: vscode.workspace.asRelativePath(p.path),
+        project: p
+    }));
 
-        statusBar.show();
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select Xcode project'
+    });
+    if (selected) {
+        await projectSelection.setActiveProject(workspaceFolderOf(selected.project), selected.project.path);
     }
+    return selected?.project;
 }
 
-async function selectDevice() {
-    const devices = await vscode.window.withProgress(
-        {
-            location: vscode.ProgressLocation.Notification,
-            title: 'Loading devices...',
-            cancellable: false
-        },
-        () => listAllDevices()
+/**
+ * The current project if it still exists, otherwise the one saved for the
+ * workspace folder, the only one, or the one the user picks.
+ */
+async function chooseProject(projects: XcodeProject[]): Promise<XcodeProject | undefined> {
+    const candidates = [
+        ...(currentProject ? [currentProject.path] : []),
+        ...projectSelection.getActiveProjects(preferredFolders())
+    ];
+    for (const candidate of candidates) {
+        const project = projects.find(p => p.path === candidate);
+        if (project) {
+            return project;
+        }
+    }
+
+    return projects.length === 1 ? projects[0] : pickProject(projects);
+}
+
+/**
+ * Makes a project current and restores the scheme, configuration and device
+ * saved for it.
+ */
+async function activateProject(project: XcodeProject) {
+    currentProject = project;
+    statusBar.setProject(project);
+    await projectSelection.migrate(project.path);
+    clearBuildSettingsCache();
+
+    // Load schemes and restore the saved one
+    schemes = await getSchemes(project);
+    const state = projectSelection.get(project.path);
+    if (state.scheme && schemes.some(s => s.name === state.scheme)) {
+        statusBar.setScheme(state.scheme);
+    } else {
+        // Auto-select scheme if configured and only one exists
+        const config = vscode.workspace.getConfiguration('simbuild');
+        statusBar.setScheme(config.get('autoSelectScheme') && schemes.length === 1 ? schemes[0].name : undefined);
+    }
+
+    // Load configurations and restore saved one, defaulting to Debug
+    configurations = await getConfigurations(project);
+    restoreConfiguration();
+
+    // Restore saved device against the devices that exist right now; a project
+    // without one keeps the device that is selected
+    if (!state.device && statusBar.currentDevice) {
+        await saveSelection(deviceSelection(statusBar.currentDevice));
+    }
+    // Not awaited: listing devices can be slow, and the device shows up once it's done
+    if (deviceRegistry.isLoaded) {
+        reconcileCurrentDevice();
+    }
+    deviceRegistry.refresh().then(
+        () => reconcileCurrentDevice(),
+        error => console.error('Failed to refresh devices:', error)
     );
 
-    if (devices.length === 0) {
-        vscode.window.showWarningMessage('No devices found. Make sure Xcode is installed.');
+    statusBar.show();
+    testController.discover();
+
+    // Watch mode follows the active project
+    if (watchMode.isActive) {
+        startWatching();
+    }
+}
+
+async function selectProject() {
+    const projects = await findXcodeProjects();
+    if (projects.length === 0) {
+        vscode.window.showWarningMessage(NO_PROJECT_MESSAGE);
         return;
     }
 
+    const project = await pickProject(projects);
+    if (project && project.path !== currentProject?.path) {
+        await activateProject(project);
+    }
+}
+
+/**
+ * Saves selections for the current project.
+ */
+async function saveSelection(changes: Partial<ProjectState>) {
+    if (currentProject) {
+        await projectSelection.update(currentProject.path, changes);
+    }
+}
+
+function restoreConfiguration() {
+    const savedConfiguration = currentProject && projectSelection.get(currentProject.path).configuration;
+    if (savedConfiguration && configurations.includes(savedConfiguration)) {
+        statusBar.setConfiguration(savedConfiguration);
+    } else if (configurations.length > 0) {
+        statusBar.setConfiguration(configurations.includes('Debug') ? 'Debug' : configurations[0]);
+    } else {
+        statusBar.setConfiguration('Debug');
+    }
+}
+
+interface DeviceQuickPickItem extends vscode.QuickPickItem {
+    device?: Device;
+}
+
+type DevicePickResult =
+    | { kind: 'select'; device: Device }
+    | { kind: 'action'; action: SimulatorAction; device: Device }
+    | { kind: 'create' }
+    | { kind: 'deleteUnavailable' };
+
+const CREATE_SIMULATOR_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('add'),
+    tooltip: 'Create Simulator'
+};
+
+const DELETE_UNAVAILABLE_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('trash'),
+    tooltip: 'Delete Unavailable Simulators'
+};
+
+function buildDeviceItems(devices: Device[]): DeviceQuickPickItem[] {
     // Group devices by type
     const simulators = devices.filter(d => d.type === 'simulator');
     const realDevices = devices.filter(d => d.type === 'device');
 
-    interface DeviceQuickPickItem extends vscode.QuickPickItem {
-        device?: Device;
-    }
-
     const items: DeviceQuickPickItem[] = [];
 
     if (realDevices.length > 0) {
         items.push({ label: 'Physical Devices', kind: vscode.QuickPickItemKind.Separator });
         for (const device of realDevices) {
             items.push({
-                label: `$(plug) ${device.name}`,
-                description: `iOS ${device.osVersion}`,
+                label: `${device.platform === 'macOS' ? '$(device-desktop)' : '$(plug)'} ${device.name}`,
+                description: `${osName(device)} ${device.osVersion}`,
                 detail: device.state,
                 device
             });
@@ -159,10 +444,10 @@ async function selectDevice() {
     if (simulators.length > 0) {
         items.push({ label: 'Simulators', kind: vscode.QuickPickItemKind.Separator });
 
-        // Group by iOS version
+        // Group by runtime
         const grouped = new Map<string, Device[]>();
         for (const sim of simulators) {
-            const version = `iOS ${sim.osVersion}`;
+            const version = `${osName(sim)} ${sim.osVersion}`;
             if (!grouped.has(version)) {
                 grouped.set(version, []);
             }
@@ -176,21 +461,175 @@ async function selectDevice() {
                 items.push({
                     label: `${icon} ${sim.name}`,
                     description: sim.state === 'Booted' ? 'Running' : '',
+                    buttons: getSimulatorButtons(sim),
                     device: sim
                 });
             }
         }
     }
 
-    const selected = await vscode.window.showQuickPick(items, {
-        placeHolder: 'Select target device',
-        matchOnDescription: true
+    return items;
+}
+
+async function loadDevices(): Promise<Device[]> {
+    return vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: 'Loading devices...',
+            cancellable: false
+        },
+        () => deviceRegistry.refresh()
+    );
+}
+
+function getDevicePollInterval(): number {
+    return vscode.workspace.getConfiguration('simbuild').get<number>('devicePollInterval', 10);
+}
+
+/**
+ * Points the status bar at the live state of the saved device. Simulators that were
+ * deleted are deselected; physical devices that went away are shown as disconnected.
+ */
+function reconcileCurrentDevice() {
+    const saved = currentProject && projectSelection.get(currentProject.path);
+    const udid = saved?.device;
+    if (!udid || !deviceRegistry.isLoaded) {
+        return;
+    }
+
+    const live = deviceRegistry.get(udid);
+    const current = statusBar.currentDevice?.udid === udid ? statusBar.currentDevice : undefined;
+
+    if (live) {
+        statusBar.setDevice(live);
+    } else if ((current?.type ?? saved.deviceType) === 'device') {
+        statusBar.setDevice({
+            udid,
+            name: saved.deviceName ?? udid,
+            type: 'device',
+            platform: 'iOS',
+            osVersion: '',
+            isAvailable: true,
+            ...current,
+            state: 'Disconnected'
+        });
+    } else if (deviceRegistry.isComplete) {
+        statusBar.setDevice(undefined);
+        saveSelection(deviceSelection(undefined));
+        vscode.window.showWarningMessage(`SimBuild: Device "${current?.name ?? saved.deviceName ?? udid}" no longer exists. Select another device.`);
+    }
+    // Otherwise a provider failed or nothing was listed; keep the simulator until a listing shows it's gone
+
+    devicesTree?.refresh();
+}
+
+function setCurrentDevice(device: Device | undefined) {
+    statusBar.setDevice(device);
+    // Save selection
+    saveSelection(deviceSelection(device));
+    devicesTree?.refresh();
+}
+
+/**
+ * Bundle ID of the app last launched, or of the selected scheme's app.
+ */
+async function getAppBundleId(): Promise<string | undefined> {
+    if (currentBundleId) {
+        return currentBundleId;
+    }
+
+    const device = statusBar.currentDevice;
+    if (!currentProject || !statusBar.currentScheme || !device) {
+        return undefined;
+    }
+
+    const config = vscode.workspace.getConfiguration('simbuild');
+    const product = await resolveAppProduct({
+        project: currentProject,
+        scheme: statusBar.currentScheme,
+        configuration: statusBar.currentConfiguration || 'Debug',
+        destination: getDestination(device),
+        derivedDataPath: config.get<string>('derivedDataPath') || undefined
     });
+    return product?.bundleId;
+}
 
-    if (selected?.device) {
-        statusBar.setDevice(selected.device);
-        // Save selection
-        extensionContext.workspaceState.update(STORAGE_KEY_DEVICE, selected.device);
+/**
+ * The devices the selected scheme's app can run on.
+ */
+async function compatibleDevices(devices: Device[]): Promise<Device[]> {
+    if (!currentProject || !statusBar.currentScheme) {
+        return devices;
+    }
+    const platforms = await getSupportedPlatforms(currentProject, statusBar.currentScheme);
+    return devices.filter(device => isCompatible(device, platforms));
+}
+
+async function selectDevice() {
+    const allDevices = await loadDevices();
+
+    if (allDevices.length === 0) {
+        vscode.window.showWarningMessage('No devices found. Make sure Xcode is installed.');
+        return;
+    }
+
+    const devices = await compatibleDevices(allDevices);
+    if (devices.length === 0) {
+        vscode.window.showWarningMessage(`No devices found that can run ${statusBar.currentScheme}. Use "SimBuild: Create Simulator" to add one for its platform.`);
+        return;
+    }
+
+    const quickPick = vscode.window.createQuickPick<DeviceQuickPickItem>();
+    quickPick.items = buildDeviceItems(devices);
+    quickPick.placeholder = 'Select target device';
+    quickPick.matchOnDescription = true;
+    quickPick.buttons = [CREATE_SIMULATOR_BUTTON, DELETE_UNAVAILABLE_BUTTON];
+
+    const result = await new Promise<DevicePickResult | undefined>((resolve) => {
+        quickPick.onDidAccept(() => {
+            const device = quickPick.selectedItems[0]?.device;
+            resolve(device ? { kind: 'select', device } : undefined);
+        });
+        quickPick.onDidTriggerItemButton(e => {
+            resolve({ kind: 'action', action: (e.button as SimulatorActionButton).action, device: e.item.device! });
+        });
+        quickPick.onDidTriggerButton(button => {
+            resolve({ kind: button === CREATE_SIMULATOR_BUTTON ? 'create' : 'deleteUnavailable' });
+        });
+        quickPick.onDidHide(() => resolve(undefined));
+        quickPick.show();
+    });
+
+    quickPick.dispose();
+
+    if (!result) {
+        return;
+    }
+
+    if (result.kind === 'select') {
+        setCurrentDevice(result.device);
+        return;
+    }
+
+    // Lifecycle actions prompt on their own, then come back to the refreshed picker
+    let changed = false;
+    if (result.kind === 'action') {
+        changed = await runSimulatorAction(result.action, result.device);
+    } else if (result.kind === 'create') {
+        changed = (await createSimulatorInteractive()) !== undefined;
+    } else {
+        changed = await deleteUnavailableInteractive();
+    }
+
+    if (changed) {
+        await selectDevice();
+    }
+}
+
+async function simulatorCommand(action: SimulatorAction, device?: Device) {
+    const target = device ?? await pickSimulator(`Select simulator to ${action}`);
+    if (target && await runSimulatorAction(action, target)) {
+        await loadDevices();
     }
 }
 
@@ -220,7 +659,39 @@ async function selectScheme() {
     if (selected) {
         statusBar.setScheme(selected.label);
         // Save selection
-        extensionContext.workspaceState.update(STORAGE_KEY_SCHEME, selected.label);
+        saveSelection({ scheme: selected.label });
+        testController.discover();
+    }
+}
+
+async function selectConfiguration() {
+    if (!currentProject) {
+        vscode.window.showWarningMessage('No Xcode project found');
+        return;
+    }
+
+    if (configurations.length === 0) {
+        configurations = await getConfigurations(currentProject);
+    }
+
+    if (configurations.length === 0) {
+        vscode.window.showWarningMessage('No build configurations found in project');
+        return;
+    }
+
+    const items = configurations.map(c => ({
+        label: c,
+        description: c === statusBar.currentConfiguration ? 'Current' : ''
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select build configuration'
+    });
+
+    if (selected) {
+        statusBar.setConfiguration(selected.label);
+        // Save selection
+        saveSelection({ configuration: selected.label });
     }
 }
 
@@ -234,32 +705,20 @@ async function refresh() {
         async () => {
             // Re-scan for projects
             const projects = await findXcodeProjects();
+            clearBuildSettingsCache();
 
             if (projects.length === 0) {
                 vscode.window.showWarningMessage('No Xcode projects found');
                 return;
             }
 
-            // Keep current project if still exists, otherwise re-select
-            if (currentProject) {
-                const stillExists = projects.some(p => p.path === currentProject!.path);
-                if (!stillExists) {
-                    currentProject = projects.length === 1 ? projects[0] : undefined;
-                }
+            // Keep the current project if it still exists, otherwise restore or ask again
+            const project = await chooseProject(projects);
+            if (project) {
+                await activateProject(project);
             } else {
-                currentProject = projects.length === 1 ? projects[0] : undefined;
-            }
-
-            // Reload schemes
-            if (currentProject) {
-                schemes = await getSchemes(currentProject);
-
-                // Validate saved scheme still exists
-                const savedScheme = statusBar.currentScheme;
-                if (savedScheme && !schemes.some(s => s.name === savedScheme)) {
-                    statusBar.setScheme(undefined);
-                    extensionContext.workspaceState.update(STORAGE_KEY_SCHEME, undefined);
-                }
+                currentProject = undefined;
+                statusBar.setProject(undefined);
             }
 
             vscode.window.showInformationMessage(
@@ -269,47 +728,357 @@ async function refresh() {
     );
 }
 
+/**
+ * Re-reads the schemes and configurations of the current project, dropping a
+ * saved scheme that no longer exists.
+ */
+async function reloadSchemes() {
+    schemes = await getSchemes(currentProject!);
+
+    // Validate saved scheme still exists
+    const savedScheme = statusBar.currentScheme;
+    if (savedScheme && !schemes.some(s => s.name === savedScheme)) {
+        statusBar.setScheme(undefined);
+        saveSelection({ scheme: undefined });
+    }
+
+    configurations = await getConfigurations(currentProject!);
+    restoreConfiguration();
+    await testController.discover();
+}
+
+async function runGenerator(manifest: GeneratorManifest): Promise<boolean> {
+    try {
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `SimBuild: Generating project with ${generatorName(manifest.kind)}...`,
+                cancellable: false
+            },
+            () => generateProject(manifest, outputChannel)
+        );
+        return true;
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Project generation failed: ${error.message}`);
+        return false;
+    }
+}
+
+async function generateProjectCommand() {
+    generatorManifests = await findGeneratorManifests();
+    if (generatorManifests.length === 0) {
+        vscode.window.showWarningMessage('No project.yml (XcodeGen) or Project.swift (Tuist) found');
+        return;
+    }
+
+    // Prefer the manifest of the current project, otherwise ask
+    let manifest = currentProject && generatorManifests.find(m => findGeneratedProject(m, [currentProject!]));
+    if (!manifest) {
+        const selected = generatorManifests.length === 1
+            ? { manifest: generatorManifests[0] }
+            : await vscode.window.showQuickPick(
+                generatorManifests.map(m => ({
+                    label: vscode.workspace.asRelativePath(m.path),
+                    description: generatorName(m.kind),
+                    manifest: m
+                })),
+                { placeHolder: 'Select manifest to generate from' }
+            );
+        if (!selected) {
+            return;
+        }
+        manifest = selected.manifest;
+    }
+
+    if (!(await runGenerator(manifest))) {
+        return;
+    }
+
+    if (currentProject) {
+        clearBuildSettingsCache();
+        await reloadSchemes();
+    } else {
+        await initialize(false);
+    }
+}
+
+/**
+ * Regenerates the current project when its XcodeGen or Tuist manifest changed
+ * since the last generation, then reloads the schemes. False if generation failed.
+ */
+async function regenerateIfStale(): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration('simbuild');
+    if (!currentProject || !config.get<boolean>('autoGenerateProject', true)) {
+        return true;
+    }
+
+    const manifest = generatorManifests.find(m => findGeneratedProject(m, [currentProject!]));
+    if (!manifest || !isGeneratedProjectStale(manifest, currentProject)) {
+        return true;
+    }
+
+    outputChannel.appendLine(`${path.basename(manifest.path)} changed, regenerating the project`);
+    if (!(await runGenerator(manifest))) {
+        return false;
+    }
+
+    clearBuildSettingsCache();
+    await reloadSchemes();
+    return true;
+}
+
+const DEPENDENCY_TOOLS: { [manager in DependencyIssue['manager']]: string } = {
+    cocoapods: 'pod install',
+    spm: 'Resolve Packages'
+};
+
+/**
+ * Installs pods and resolves Swift packages that are missing or out of date,
+ * asking first unless `simbuild.resolveDependencies` says otherwise. False if
+ * resolving failed.
+ */
+async function ensureDependencies(): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration('simbuild');
+    const mode = config.get<'prompt' | 'always' | 'never'>('resolveDependencies', 'prompt');
+    if (mode === 'never') {
+        return true;
+    }
+
+    const issues = await checkDependencies(currentProject!);
+    for (const issue of issues) {
+        if (mode === 'prompt') {
+            const action = DEPENDENCY_TOOLS[issue.manager];
+            const choice = await vscode.window.showWarningMessage(
+                `SimBuild: ${issue.reason}. Run ${action} before building?`,
+                action,
+                'Always',
+                'Build Anyway'
+            );
+            if (choice === 'Always') {
+                await config.update('resolveDependencies', 'always', vscode.ConfigurationTarget.Workspace);
+            } else if (choice !== action) {
+                continue;
+            }
+        }
+
+        try {
+            outputChannel.appendLine(`${issue.reason}, resolving dependencies`);
+            await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: issue.manager === 'cocoapods' ? 'SimBuild: Installing pods...' : 'SimBuild: Resolving Swift packages...',
+                    cancellable: false
+                },
+                () => resolveDependencies(issue.manager, currentProject!, outputChannel)
+            );
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Dependency resolution failed: ${error.message}`);
+            return false;
+        }
+
+        // Resolving can add schemes and changes build settings
+        clearBuildSettingsCache();
+
+        // The first pod install creates the workspace that has to be built instead
+        if (issue.manager === 'cocoapods' && currentProject!.type === 'project') {
+            const directory = path.dirname(currentProject!.path);
+            const workspace = (await findXcodeProjects()).find(p => p.type === 'workspace' && path.dirname(p.path) === directory);
+            if (workspace) {
+                // Carry the selections over to the workspace
+                await projectSelection.update(workspace.path, projectSelection.get(currentProject!.path));
+                await projectSelection.setActiveProject(workspaceFolderOf(workspace), workspace.path);
+                await activateProject(workspace);
+            }
+        }
+    }
+    return true;
+}
+
 async function runBuild(runAfterBuild: boolean, clean = false) {
+    if (!(await ensureBuildTarget())) {
+        return;
+    }
+
+    await runJob(runAfterBuild ? 'Build & Run' : 'Build', job => buildAndRun(job, runAfterBuild, clean));
+}
+
+async function buildAndRun(job: Job, runAfterBuild: boolean, clean = false) {
+    const result = await buildCurrentProject(job, clean);
+
+    // Swift packages without an app target build fine but have nothing to launch
+    if (runAfterBuild && result?.success && !result.appPath) {
+        vscode.window.showWarningMessage(`SimBuild: Scheme "${statusBar.currentScheme}" has no app to run.`);
+    }
+
+    // Run app if requested
+    if (runAfterBuild && result?.success && result.appPath) {
+        currentProcessName = result.executablePath && path.basename(result.executablePath);
+        await runApp(job, result.appPath);
+    }
+}
+
+/**
+ * Runs the work as a job that the Stop button cancels. Returns undefined
+ * if it was cancelled or, with concurrentBuilds set to "reject", never started.
+ */
+async function runJob<T>(name: string, work: (job: Job) => Promise<T>, mode?: ConcurrentBuildMode): Promise<T | undefined> {
+    const outcome = await jobs.run(name, work, mode);
+
+    if (outcome.status === 'rejected') {
+        vscode.window.showInformationMessage(`SimBuild: ${jobs.currentJob?.name ?? 'A build'} is already running.`);
+        return undefined;
+    }
+    if (outcome.status === 'cancelled') {
+        // A restarted build may already be under way
+        if (!jobs.isRunning) {
+            statusBar.setBuilding(false);
+            statusBar.showCancelled();
+        }
+        return undefined;
+    }
+    return outcome.value;
+}
+
+function getWatchOptions(): WatchOptions {
+    const config = vscode.workspace.getConfiguration('simbuild');
+    return {
+        include: config.get<string[]>('watchInclude', DEFAULT_WATCH_INCLUDE),
+        exclude: config.get<string[]>('watchExclude', DEFAULT_WATCH_EXCLUDE),
+        debounce: config.get<number>('watchDebounce', 500)
+    };
+}
+
+function startWatching() {
+    if (currentProject) {
+        watchMode.start(projectDirectory(currentProject), getWatchOptions());
+    }
+    statusBar.setWatching(watchMode.isActive);
+}
+
+async function toggleWatch() {
+    if (watchMode.isActive) {
+        watchMode.stop();
+        statusBar.setWatching(false);
+        return;
+    }
+
+    if (await ensureBuildTarget()) {
+        startWatching();
+    }
+}
+
+/**
+ * Builds and relaunches after sources changed in watch mode, replacing a build
+ * that is still running.
+ */
+async function rebuildOnChange() {
+    // Prompting for a missing selection on every save would get in the way
+    if (!currentProject || !statusBar.currentScheme || !statusBar.currentDevice) {
+        return;
+    }
+    await runJob('Build & Run', job => buildAndRun(job, true), 'restart');
+}
+
+/**
+ * Makes sure a project, scheme and device are selected, prompting for missing ones.
+ */
+async function ensureBuildTarget(): Promise<boolean> {
+    // A manifest without a generated project yet
+    const autoGenerate = vscode.workspace.getConfiguration('simbuild').get<boolean>('autoGenerateProject', true);
+    if (!currentProject && autoGenerate && generatorManifests.length > 0) {
+        await generateProjectCommand();
+    }
+
     // Validate requirements
     if (!currentProject) {
-        vscode.window.showWarningMessage('No Xcode project found. Open a folder with .xcodeproj or .xcworkspace');
-        return;
+        vscode.window.showWarningMessage(NO_PROJECT_MESSAGE);
+        return false;
+    }
+
+    if (!(await regenerateIfStale()) || !(await ensureDependencies())) {
+        return false;
     }
 
     const scheme = statusBar.currentScheme;
     if (!scheme) {
         await selectScheme();
-        if (!statusBar.currentScheme) {return;}
+        if (!statusBar.currentScheme) {return false;}
     }
 
     const device = statusBar.currentDevice;
     if (!device) {
         await selectDevice();
-        if (!statusBar.currentDevice) {return;}
+        if (!statusBar.currentDevice) {return false;}
     }
 
+    return true;
+}
+
+async function buildCurrentProject(job: Job, clean = false, device = statusBar.currentDevice!): Promise<BuildResult | undefined> {
     // Get config
     const config = vscode.workspace.getConfiguration('simbuild');
     const derivedDataPath = config.get<string>('derivedDataPath') || undefined;
 
+    const scheme = statusBar.currentScheme!;
+    const configuration = statusBar.currentConfiguration || 'Debug';
+
+    // Durations of earlier builds drive the ETA; simulator and device builds differ
+    const historyKey = `${scheme}|${configuration}|${device.type}`;
+    const buildHistory = extensionContext.workspaceState.get<{ [key: string]: BuildRecord }>(STORAGE_KEY_BUILD_HISTORY, {});
+
     // Start build
     statusBar.setBuilding(true);
+    diagnosticCollection.clear();
 
     try {
-        const result = await build(
+        const result = await vscode.window.withProgress(
             {
-                project: currentProject,
-                scheme: statusBar.currentScheme!,
-                device: statusBar.currentDevice!,
-                derivedDataPath,
-                clean
+                location: vscode.ProgressLocation.Notification,
+                title: `Building ${scheme}`,
+                cancellable: true
             },
-            outputChannel,
-            (message) => statusBar.setBuilding(true, message)
+            (progress, token) => {
+                token.onCancellationRequested(() => job.cancel());
+                let reported = 0;
+
+                return build(
+                    {
+                        project: currentProject!,
+                        scheme,
+                        configuration,
+                        device,
+                        derivedDataPath,
+                        clean,
+                        previousBuild: buildHistory[historyKey],
+                        token: job
+                    },
+                    outputChannel,
+                    (message, fraction) => {
+                        statusBar.setBuilding(true, message);
+                        const increment = fraction !== undefined ? Math.max(0, fraction * 100 - reported) : undefined;
+                        reported += increment ?? 0;
+                        progress.report({ message, increment });
+                    }
+                );
+            }
         );
 
+        if (result.cancelled) {
+            statusBar.setBuilding(false);
+            return undefined;
+        }
+
+        if (result.success && !clean) {
+            extensionContext.workspaceState.update(STORAGE_KEY_BUILD_HISTORY, {
+                ...buildHistory,
+                [historyKey]: updateBuildRecord(buildHistory[historyKey], result.duration, result.filesCompiled)
+            });
+        }
+        recordBuildTiming(result, scheme, configuration, device, clean);
+
         statusBar.setBuilding(false);
-        statusBar.showBuildResult(result.success, result.duration);
+        statusBar.showBuildResult(result.success, result.duration, result.warningCount);
+        publishBuildDiagnostics(diagnosticCollection, result.issues, currentProject!.path);
 
         if (result.success) {
             if (config.get('showBuildTime')) {
@@ -317,42 +1086,62 @@ async function runBuild(runAfterBuild: boolean, clean = false) {
                     `Build succeeded in ${(result.duration / 1000).toFixed(1)}s`
                 );
             }
-
-            // Run app if requested
-            if (runAfterBuild && result.appPath) {
-                await runApp(result.appPath);
-            }
         } else {
-            vscode.window.showErrorMessage(`Build failed: ${result.error}`);
+            const counts = result.errorCount > 0 ? ` (${result.errorCount} error(s))` : '';
+            vscode.window.showErrorMessage(`Build failed${counts}: ${result.error}`);
         }
+
+        return result;
     } catch (error: any) {
         statusBar.setBuilding(false);
         vscode.window.showErrorMessage(`Build error: ${error.message}`);
+        return undefined;
     }
 }
 
-async function runApp(appPath: string) {
-    const device = statusBar.currentDevice;
-    if (!device) {return;}
+async function recordBuildTiming(result: BuildResult, scheme: string, configuration: string, device: Device, clean: boolean) {
+    try {
+        await buildTimingHistory.add({
+            timestamp: new Date().toISOString(),
+            scheme,
+            configuration,
+            destination: device.name,
+            clean,
+            success: result.success,
+            duration: result.duration,
+            targets: result.targets,
+            tasks: result.tasks,
+            slowestSteps: slowestSteps(result.steps)
+        });
+        await BuildReport.refresh();
+    } catch (error) {
+        console.error('Failed to record build timing:', error);
+    }
+}
+
+async function runApp(job: Job, appPath: string) {
+    const selected = statusBar.currentDevice;
+    if (!selected) {return;}
 
     try {
+        // Decide on booting from the live state, not the one captured at selection time
+        await deviceRegistry.refresh({ fallbacks: false });
+        const device = deviceRegistry.get(selected.udid) ?? selected;
+        job.throwIfCancelled();
+
         // Boot simulator if needed
-        if (device.type === 'simulator' && device.state !== 'Booted') {
+        if (needsBoot(device)) {
             statusBar.setBuilding(true, 'Booting simulator...');
-            await bootSimulator(device.udid);
-            await openSimulatorApp();
+            await bootDevice(device, job);
         }
 
         // Install app
         statusBar.setBuilding(true, 'Installing...');
-        await installApp(device, appPath);
+        await installApp(device, appPath, job);
 
         // Get bundle ID and launch
-        const bundleId = await getBundleIdentifier(
-            currentProject!,
-            statusBar.currentScheme!,
-            appPath.replace(/\/Build\/Products\/.*/, '')
-        );
+        const bundleId = await getCurrentBundleId(appPath);
+        job.throwIfCancelled();
 
         if (bundleId) {
             // Save bundle ID for log streaming
@@ -361,7 +1150,7 @@ async function runApp(appPath: string) {
             // Use console mode which launches the app and captures stdout
             // Works for both simulator (simctl launch --console-pty) and device (devicectl launch --console)
             statusBar.setBuilding(true, 'Launching with console...');
-            startLogStreamInternal(device, bundleId);
+            await startLogStreamInternal(device, bundleId);
         }
 
         statusBar.setBuilding(false);
@@ -369,30 +1158,147 @@ async function runApp(appPath: string) {
 
     } catch (error: any) {
         statusBar.setBuilding(false);
+        if (isCancellation(error)) {
+            return;
+        }
         vscode.window.showErrorMessage(`Failed to run app: ${error.message}`);
     }
 }
 
-function startLogStreamInternal(device: Device, bundleId: string) {
+function getCurrentBundleId(appPath: string, device = statusBar.currentDevice!): Promise<string | undefined> {
+    const config = vscode.workspace.getConfiguration('simbuild');
+    return getBundleIdentifier(
+        {
+            project: currentProject!,
+            scheme: statusBar.currentScheme!,
+            configuration: statusBar.currentConfiguration || 'Debug',
+            destination: getDestination(device),
+            derivedDataPath: config.get<string>('derivedDataPath') || undefined
+        },
+        appPath
+    );
+}
+
+/**
+ * Builds once per SDK and runs the app on several devices at the same time.
+ */
+async function runOnMultiple() {
+    if (!currentProject) {
+        vscode.window.showWarningMessage(NO_PROJECT_MESSAGE);
+        return;
+    }
+
+    if (!(await regenerateIfStale()) || !(await ensureDependencies())) {
+        return;
+    }
+
+    if (!statusBar.currentScheme) {
+        await selectScheme();
+        if (!statusBar.currentScheme) {return;}
+    }
+
+    const devices = await compatibleDevices((await loadDevices()).filter(d => d.isAvailable));
+    if (devices.length === 0) {
+        vscode.window.showWarningMessage(`No devices found that can run ${statusBar.currentScheme}.`);
+        return;
+    }
+
+    const saved = projectSelection.get(currentProject.path).devices ?? [];
+    const selected = await pickDevices(devices, saved);
+    if (!selected || selected.length === 0) {
+        return;
+    }
+    saveSelection({ devices: selected.map(d => d.udid) });
+
+    deviceConsoles.stopAll();
+
+    const results = await runJob('Run on Multiple Devices', job => runOnDevices(selected, {
+        build: (device) => buildCurrentProject(job, false, device),
+        getBundleId: (device, result) => result.bundleId
+            ? Promise.resolve(result.bundleId)
+            : getCurrentBundleId(result.appPath!, device)
+    }, deviceConsoles, job));
+    if (!results) {
+        devicesTree?.refresh();
+        return;
+    }
+
+    const launched = results.filter(r => r.success);
+    const failed = results.filter(r => !r.success && !r.cancelled);
+
+    if (launched.length > 0) {
+        // Remember the app for the devices view and log commands
+        currentBundleId = launched[0].bundleId;
+        deviceConsoles.show(launched[0].device);
+    }
+
+    if (failed.length === 0) {
+        vscode.window.showInformationMessage(`App launched on ${launched.length} device(s). Console output streaming.`);
+    } else {
+        const details = failed.map(r => `${r.device.name}: ${r.error}`).join('; ');
+        vscode.window.showErrorMessage(`Launched on ${launched.length} of ${results.length} device(s). ${details}`);
+    }
+
+    devicesTree?.refresh();
+}
+
+const LOG_MODE_LABELS: { [mode in LogMode]: string } = {
+    stdout: 'stdout (print statements)',
+    system: 'system (os_log, Logger, NSLog)',
+    both: 'stdout and system'
+};
+
+function getLogMode(): LogMode {
+    return vscode.workspace.getConfiguration('simbuild').get<LogMode>('logMode', 'stdout');
+}
+
+/**
+ * Starts recording a console session to the log history. Failing to record never blocks the console.
+ */
+async function beginConsoleSession(device: Device, bundleId: string) {
+    consoleSession?.end(null);
+    consoleSession = undefined;
+
+    try {
+        consoleSession = await logHistory.begin({
+            scheme: statusBar.currentScheme ?? '',
+            device: device.name,
+            bundleId,
+            commit: currentProject ? await getCommitHash(path.dirname(currentProject.path)) : undefined
+        });
+    } catch (error) {
+        console.error('Failed to record console history:', error);
+    }
+}
+
+async function startLogStreamInternal(device: Device, bundleId: string) {
+    const mode = getLogMode();
+    await beginConsoleSession(device, bundleId);
+    const session = consoleSession;
+
     logOutputChannel.clear();
     logOutputChannel.show(true);
     logOutputChannel.appendLine(`📱 Starting console for ${bundleId}...`);
     logOutputChannel.appendLine(`   Device: ${device.name} (${device.type})`);
-    logOutputChannel.appendLine(`   Mode: stdout (print statements)`);
+    logOutputChannel.appendLine(`   Mode: ${LOG_MODE_LABELS[mode]}`);
     logOutputChannel.appendLine('─'.repeat(60));
     logOutputChannel.appendLine('');
 
-    const success = startLogStream({
+    const success = startLogStream(appLogStreams, {
         device,
         bundleId,
-        mode: 'stdout',  // Capture print() statements
+        mode,
+        processName: currentProcessName,
         onLog: (line) => {
             logOutputChannel.appendLine(line);
+            session?.append(line);
         },
         onError: (error) => {
             logOutputChannel.appendLine(`[Error] ${error}`);
+            session?.append(`[Error] ${error}`);
         },
-        onClose: () => {
+        onClose: (exitCode) => {
+            session?.end(exitCode);
             logOutputChannel.appendLine('');
             logOutputChannel.appendLine('─'.repeat(60));
             logOutputChannel.appendLine('📱 Console ended (app terminated)');
@@ -401,6 +1307,7 @@ function startLogStreamInternal(device: Device, bundleId: string) {
 
     if (!success) {
         logOutputChannel.appendLine('[Error] Failed to start console');
+        session?.end(null);
     }
 }
 
@@ -416,17 +1323,62 @@ async function startLog() {
         return;
     }
 
-    if (isLogStreamRunning()) {
+    if (appLogStreams.isRunning()) {
         vscode.window.showInformationMessage('Log stream is already running.');
         logOutputChannel.show(true);
         return;
     }
 
-    startLogStreamInternal(device, currentBundleId);
+    await startLogStreamInternal(device, currentBundleId);
+}
+
+async function selectLogMode() {
+    const current = getLogMode();
+    const selected = await vscode.window.showQuickPick(
+        (Object.keys(LOG_MODE_LABELS) as LogMode[]).map(mode => ({
+            label: mode,
+            description: LOG_MODE_LABELS[mode] + (mode === current ? ' · Current' : ''),
+            mode
+        })),
+        { placeHolder: 'Select what the SimBuild Log console captures' }
+    );
+
+    if (selected) {
+        await vscode.workspace.getConfiguration('simbuild').update(
+            'logMode',
+            selected.mode,
+            vscode.ConfigurationTarget.Workspace
+        );
+    }
+}
+
+function openLogViewer() {
+    const device = statusBar.currentDevice;
+    if (!device) {
+        vscode.window.showWarningMessage('No device selected. Please select a device first.');
+        return;
+    }
+
+    if (device.type !== 'simulator') {
+        vscode.window.showWarningMessage('The log viewer only supports simulators.');
+        return;
+    }
+
+    if (!currentBundleId) {
+        vscode.window.showWarningMessage('No app has been launched yet. Run the app first.');
+        return;
+    }
+
+    LogViewer.show(device, currentBundleId, currentProcessName);
 }
 
 function stopLog() {
-    if (stopLogStream()) {
+    // Stopped streams don't report closing, so end the recorded session here
+    consoleSession?.end(null);
+    consoleSession = undefined;
+
+    const stoppedConsoles = deviceConsoles.stopAll();
+    if (appLogStreams.stopAll() || stoppedConsoles) {
         vscode.window.showInformationMessage('Log stream stopped');
     } else {
         vscode.window.showInformationMessage('No log stream is running');
@@ -434,8 +1386,12 @@ function stopLog() {
 }
 
 export function deactivate() {
-    stopLogStream();
+    consoleSession?.end(null);
+    appLogStreams.stopAll();
+    deviceConsoles?.dispose();
+    LogViewer.disposeCurrent();
     statusBar?.dispose();
     outputChannel?.dispose();
     logOutputChannel?.dispose();
+    diagnosticCollection?.dispose();
 }
@@ -0,0 +1,194 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { run } from '../process/runner';
+
+export interface LogSession {
+    id: string;
+    /** ISO timestamps */
+    startedAt: string;
+    endedAt?: string;
+    scheme: string;
+    device: string;
+    bundleId: string;
+    commit?: string;
+    /** Exit code of the app console; null when it was stopped or killed */
+    exitStatus?: number | null;
+}
+
+export interface LogRetention {
+    /** 0 keeps any number of sessions */
+    maxSessions: number;
+    /** 0 keeps sessions of any age */
+    maxAgeDays: number;
+}
+
+export interface LogSearchMatch {
+    session: LogSession;
+    /** Zero-based line number */
+    line: number;
+    text: string;
+}
+
+export async function getCommitHash(cwd: string): Promise<string | undefined> {
+    try {
+        const { stdout } = await run('git', ['rev-parse', '--short', 'HEAD'], { cwd });
+        return stdout.trim() || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Console output of one launch. Lines are appended as they arrive; the
+ * metadata is rewritten when the session ends.
+ */
+export class LogSessionWriter {
+    private stream: fs.WriteStream;
+    private ended = false;
+
+    constructor(
+        readonly session: LogSession,
+        private readonly history: LogHistory
+    ) {
+        this.stream = fs.createWriteStream(history.logPath(session), { flags: 'a' });
+        this.stream.on('error', error => console.error('Failed to write console history:', error));
+    }
+
+    append(line: string) {
+        if (!this.ended) {
+            this.stream.write(line + '\n');
+        }
+    }
+
+    /**
+     * Saves the metadata and prunes old sessions. Never rejects: callers don't
+     * wait for it, and failing to record history shouldn't surface as an error.
+     */
+    async end(exitStatus: number | null) {
+        if (this.ended) {
+            return;
+        }
+        this.ended = true;
+        this.session.endedAt = new Date().toISOString();
+        this.session.exitStatus = exitStatus;
+
+        try {
+            await new Promise<void>(resolve => this.stream.end(resolve));
+            await this.history.save(this.session);
+            await this.history.prune();
+        } catch (error) {
+            console.error('Failed to save console history:', error);
+        }
+    }
+}
+
+/**
+ * Console sessions stored as `<id>.log` with a `<id>.json` metadata file next to it.
+ */
+export class LogHistory {
+    constructor(
+        private readonly directory: string,
+        private readonly getRetention: () => LogRetention
+    ) {}
+
+    logPath(session: LogSession): string {
+        return path.join(this.directory, `${session.id}.log`);
+    }
+
+    private metadataPath(id: string): string {
+        return path.join(this.directory, `${id}.json`);
+    }
+
+    async begin(metadata: Omit<LogSession, 'id' | 'startedAt'>, now = new Date()): Promise<LogSessionWriter> {
+        await fs.promises.mkdir(this.directory, { recursive: true });
+
+        const startedAt = now.toISOString();
+        // Sortable and safe as a file name
+        let id = startedAt.replace(/[:.]/g, '-');
+        for (let i = 1; fs.existsSync(this.metadataPath(id)); i++) {
+            id = `${startedAt.replace(/[:.]/g, '-')}-${i}`;
+        }
+
+        const session: LogSession = { id, startedAt, ...metadata };
+        await this.save(session);
+        return new LogSessionWriter(session, this);
+    }
+
+    async save(session: LogSession) {
+        await fs.promises.writeFile(this.metadataPath(session.id), JSON.stringify(session, null, 2));
+    }
+
+    /**
+     * All stored sessions, newest first.
+     */
+    async list(): Promise<LogSession[]> {
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(this.directory);
+        } catch {
+            return [];
+        }
+
+        const sessions: LogSession[] = [];
+        for (const file of files.filter(f => f.endsWith('.json'))) {
+            try {
+                sessions.push(JSON.parse(await fs.promises.readFile(path.join(this.directory, file), 'utf8')));
+            } catch {
+                // Skip metadata that is being written or was corrupted
+            }
+        }
+        return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    }
+
+    async read(session: LogSession): Promise<string> {
+        try {
+            return await fs.promises.readFile(this.logPath(session), 'utf8');
+        } catch {
+            return '';
+        }
+    }
+
+    /**
+     * Case-insensitive search through the output of all sessions, newest first.
+     */
+    async search(query: string, limit = 500): Promise<LogSearchMatch[]> {
+        const needle = query.toLowerCase();
+        const matches: LogSearchMatch[] = [];
+
+        for (const session of await this.list()) {
+            const lines = (await this.read(session)).split('\n');
+            for (let line = 0; line < lines.length; line++) {
+                if (lines[line].toLowerCase().includes(needle)) {
+                    matches.push({ session, line, text: lines[line] });
+                    if (matches.length >= limit) {
+                        return matches;
+                    }
+                }
+            }
+        }
+        return matches;
+    }
+
+    async delete(session: LogSession) {
+        await fs.promises.rm(this.logPath(session), { force: true });
+        await fs.promises.rm(this.metadataPath(session.id), { force: true });
+    }
+
+    /**
+     * Deletes sessions beyond the retention limits. Returns how many were removed.
+     */
+    async prune(now = new Date()): Promise<number> {
+        const { maxSessions, maxAgeDays } = this.getRetention();
+        const cutoff = now.getTime() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+        const expired = (await this.list()).filter((session, index) =>
+            (maxSessions > 0 && index >= maxSessions) ||
+            (maxAgeDays > 0 && new Date(session.startedAt).getTime() < cutoff)
+        );
+
+        for (const session of expired) {
+            await this.delete(session);
+        }
+        return expired.length;
+    }
+}
@@ -0,0 +1,132 @@
+export type LogLevel = 'debug' | 'info' | 'default' | 'error' | 'fault';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'default', 'error', 'fault'];
+
+export interface LogRecord {
+    timestamp: string;
+    level: LogLevel;
+    subsystem: string;
+    category: string;
+    process: string;
+    pid?: number;
+    message: string;
+}
+
+export interface LogFilter {
+    /** Lowest level shown */
+    level?: LogLevel;
+    subsystem?: string;
+    category?: string;
+    text?: string;
+}
+
+/**
+ * Raw event of `log stream --style ndjson`. Only the fields we use are listed.
+ */
+interface UnifiedLogEvent {
+    timestamp?: string;
+    messageType?: string;
+    eventType?: string;
+    subsystem?: string;
+    category?: string;
+    processImagePath?: string;
+    processID?: number;
+    eventMessage?: string;
+}
+
+function toLevel(messageType: string | undefined): LogLevel {
+    const level = messageType?.toLowerCase();
+    return LOG_LEVELS.includes(level as LogLevel) ? level as LogLevel : 'default';
+}
+
+/**
+ * Parses one line of `log stream --style ndjson`. Returns undefined for the
+ * "Filtering the log data..." banner and for non-log events such as activities.
+ */
+export function parseLogLine(line: string): LogRecord | undefined {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) {
+        return undefined;
+    }
+
+    let event: UnifiedLogEvent;
+    try {
+        event = JSON.parse(trimmed);
+    } catch {
+        return undefined;
+    }
+
+    if (event.eventType && event.eventType !== 'logEvent') {
+        return undefined;
+    }
+
+    const imagePath = event.processImagePath ?? '';
+    return {
+        timestamp: event.timestamp ?? '',
+        level: toLevel(event.messageType),
+        subsystem: event.subsystem ?? '',
+        category: event.category ?? '',
+        process: imagePath.split('/').pop() ?? imagePath,
+        pid: event.processID,
+        message: event.eventMessage ?? ''
+    };
+}
+
+export function parseLog(text: string): LogRecord[] {
+    return text.split(/\r?\n/)
+        .map(parseLogLine)
+        .filter((record): record is LogRecord => record !== undefined);
+}
+
+/**
+ * Incremental parser for a running `log stream`, which delivers lines in arbitrary chunks.
+ */
+export class NdjsonLogParser {
+    private buffer = '';
+
+    constructor(private readonly onRecord: (record: LogRecord) => void) {}
+
+    feed(chunk: string) {
+        this.buffer += chunk;
+        const lines = this.buffer.split(/\r?\n/);
+        this.buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            this.parseLine(line);
+        }
+    }
+
+    end() {
+        if (this.buffer) {
+            this.parseLine(this.buffer);
+            this.buffer = '';
+        }
+    }
+
+    private parseLine(line: string) {
+        const record = parseLogLine(line);
+        if (record) {
+            this.onRecord(record);
+        }
+    }
+}
+
+/**
+ * Subsystem, category and text match case-insensitively as substrings.
+ */
+export function matchesFilter(record: LogRecord, filter: LogFilter): boolean {
+    const contains = (value: string, search?: string) =>
+        !search || value.toLowerCase().includes(search.toLowerCase());
+
+    if (filter.level && LOG_LEVELS.indexOf(record.level) < LOG_LEVELS.indexOf(filter.level)) {
+        return false;
+    }
+
+    return contains(record.subsystem, filter.subsystem) &&
+        contains(record.category, filter.category) &&
+        (contains(record.message, filter.text) || contains(record.process, filter.text));
+}
+
+export function formatLogRecord(record: LogRecord): string {
+    const scope = record.subsystem ? ` [${record.subsystem}${record.category ? `:${record.category}` : ''}]` : '';
+    return `${record.timestamp} ${record.process}${record.pid !== undefined ? `[${record.pid}]` : ''} <${record.level}>${scope} ${record.message}`;
+}
@@ -0,0 +1,140 @@
+import { ChildProcess } from 'child_process';
+import { spawnProcess } from '../process/runner';
+
+export type SpawnFunction = (command: string, args: string[]) => ChildProcess;
+
+export interface LogStreamSpec {
+    /** Streams are keyed by name; starting a name that is running replaces it */
+    name: string;
+    command: string;
+    args: string[];
+    /** Prepended to every line of this stream */
+    prefix?: string;
+    /** Whether stderr lines are logged with a [stderr] marker or reported as errors */
+    stderr?: 'log' | 'error';
+}
+
+export interface LogStreamHandlers {
+    onLog(line: string, stream: string): void;
+    onError(error: string, stream: string): void;
+    /** `code` is null when the process was killed by a signal or failed to start */
+    onClose(stream: string, code: number | null): void;
+}
+
+interface RunningStream {
+    process: ChildProcess;
+    ended: boolean;
+}
+
+function lineSplitter(onLine: (line: string) => void): { feed(data: Buffer): void; end(): void } {
+    let buffer = '';
+    return {
+        feed(data: Buffer) {
+            buffer += data.toString();
+            const lines = buffer.split(/\r?\n/);
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                if (line.trim()) {
+                    onLine(line);
+                }
+            }
+        },
+        end() {
+            if (buffer.trim()) {
+                onLine(buffer);
+            }
+            buffer = '';
+        }
+    };
+}
+
+/**
+ * Runs any number of named log processes side by side. Events of a stream that
+ * was stopped or replaced are dropped, so a restarted stream never sees stale output.
+ */
+export class LogStreamManager {
+    private streams = new Map<string, RunningStream>();
+
+    constructor(private readonly spawn: SpawnFunction = (command, args) => spawnProcess(command, args)) {}
+
+    get running(): string[] {
+        return [...this.streams.keys()];
+    }
+
+    isRunning(name?: string): boolean {
+        return name === undefined ? this.streams.size > 0 : this.streams.has(name);
+    }
+
+    start(spec: LogStreamSpec, handlers: LogStreamHandlers): boolean {
+        this.stop(spec.name);
+
+        let process: ChildProcess;
+        try {
+            process = this.spawn(spec.command, spec.args);
+        } catch (error: any) {
+            handlers.onError(error.message, spec.name);
+            return false;
+        }
+
+        const stream: RunningStream = { process, ended: false };
+        this.streams.set(spec.name, stream);
+
+        const isCurrent = () => this.streams.get(spec.name) === stream;
+        const prefix = spec.prefix ?? '';
+
+        const stdout = lineSplitter(line => handlers.onLog(`${prefix}${line}`, spec.name));
+        const stderr = lineSplitter(line => spec.stderr === 'log'
+            ? handlers.onLog(`${prefix}[stderr] ${line}`, spec.name)
+            : handlers.onError(line, spec.name));
+
+        // Spawn failures emit 'error' and may or may not be followed by 'close'
+        const end = (code: number | null) => {
+            if (!isCurrent() || stream.ended) {
+                return;
+            }
+            stream.ended = true;
+            stdout.end();
+            stderr.end();
+            this.streams.delete(spec.name);
+            handlers.onClose(spec.name, code);
+        };
+
+        process.stdout?.on('data', (data: Buffer) => {
+            if (isCurrent()) {
+                stdout.feed(data);
+            }
+        });
+        process.stderr?.on('data', (data: Buffer) => {
+            if (isCurrent()) {
+                stderr.feed(data);
+            }
+        });
+        process.on('error', (err) => {
+            if (isCurrent()) {
+                handlers.onError(err.message, spec.name);
+                end(null);
+            }
+        });
+        process.on('close', (code: number | null) => end(code));
+
+        return true;
+    }
+
+    stop(name: string): boolean {
+        const stream = this.streams.get(name);
+        if (!stream) {
+            return false;
+        }
+        this.streams.delete(name);
+        stream.process.kill('SIGTERM');
+        return true;
+    }
+
+    stopAll(): boolean {
+        let stopped = false;
+        for (const name of this.running) {
+            stopped = this.stop(name) || stopped;
+        }
+        return stopped;
+    }
+}
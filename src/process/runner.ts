@@ -0,0 +1,223 @@
+import { ChildProcess, spawn } from 'child_process';
+
+/**
+ * The part of vscode.CancellationToken the runner needs, so that this module
+ * works outside the extension host.
+ */
+export interface CancellationToken {
+    readonly isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+export interface SpawnOptions {
+    cwd?: string;
+    env?: NodeJS.ProcessEnv;
+    /** Terminates the process when cancellation is requested */
+    token?: CancellationToken;
+}
+
+export interface RunOptions extends SpawnOptions {
+    /** Milliseconds before the process is killed */
+    timeout?: number;
+    /** Bytes of stdout or stderr before the process is killed */
+    maxBuffer?: number;
+}
+
+export interface RunResult {
+    stdout: string;
+    stderr: string;
+}
+
+/**
+ * Runs commands as argv lists, never through a shell, so paths and names are
+ * passed on exactly as given.
+ */
+export interface ProcessRunner {
+    /** Runs to completion; rejects with a ProcessError unless the exit code is 0 */
+    run(command: string, args: string[], options?: RunOptions): Promise<RunResult>;
+    /** Starts a long-running process whose output is consumed as it arrives */
+    spawn(command: string, args: string[], options?: SpawnOptions): ChildProcess;
+}
+
+const DEFAULT_MAX_BUFFER = 32 * 1024 * 1024;
+
+/** Milliseconds a process gets to exit after SIGTERM before it is sent SIGKILL */
+export const KILL_GRACE_PERIOD = 5000;
+
+/**
+ * Asks the process to exit and kills it if it hasn't after the grace period.
+ * xcodebuild can take a while to wind down, or hang on to its build service.
+ */
+export function terminateProcess(child: ChildProcess, gracePeriod = KILL_GRACE_PERIOD): void {
+    const running = () => child.exitCode === null && child.signalCode === null;
+    if (!running()) {
+        return;
+    }
+
+    child.kill('SIGTERM');
+    const timer = setTimeout(() => {
+        if (running()) {
+            child.kill('SIGKILL');
+        }
+    }, gracePeriod);
+    child.once('exit', () => clearTimeout(timer));
+}
+
+function commandLine(command: string, args: string[]): string {
+    return [command, ...args].map(arg => /[\s"'$\\]/.test(arg) ? JSON.stringify(arg) : arg).join(' ');
+}
+
+/**
+ * A command that ran and failed. `message` includes stderr, which is where
+ * simctl and xcodebuild explain what went wrong.
+ */
+export class ProcessError extends Error {
+    constructor(
+        readonly command: string,
+        readonly args: string[],
+        readonly exitCode: number | null,
+        readonly stdout: string,
+        readonly stderr: string,
+        message?: string
+    ) {
+        super(message ?? `${commandLine(command, args)} failed with exit code ${exitCode}${stderr.trim() ? `: ${stderr.trim()}` : ''}`);
+        this.name = 'ProcessError';
+    }
+}
+
+export class CommandNotFoundError extends ProcessError {
+    constructor(command: string, args: string[]) {
+        super(command, args, null, '', '', `${command} not found`);
+        this.name = 'CommandNotFoundError';
+    }
+}
+
+export class ProcessTimeoutError extends ProcessError {
+    constructor(command: string, args: string[], readonly timeout: number, stdout: string, stderr: string) {
+        super(command, args, null, stdout, stderr, `${commandLine(command, args)} timed out after ${timeout / 1000}s`);
+        this.name = 'ProcessTimeoutError';
+    }
+}
+
+export class ProcessCancelledError extends ProcessError {
+    constructor(command: string, args: string[], stdout = '', stderr = '') {
+        super(command, args, null, stdout, stderr, `${commandLine(command, args)} was cancelled`);
+        this.name = 'ProcessCancelledError';
+    }
+}
+
+/**
+ * The runner backed by child_process.
+ */
+export const nodeProcessRunner: ProcessRunner = {
+    spawn(command, args, options = {}) {
+        const child = spawn(command, args, { cwd: options.cwd, env: options.env });
+
+        if (options.token?.isCancellationRequested) {
+            terminateProcess(child);
+        } else if (options.token) {
+            const cancellation = options.token.onCancellationRequested(() => terminateProcess(child));
+            child.once('close', () => cancellation.dispose());
+        }
+        return child;
+    },
+
+    run(command, args, options = {}) {
+        const maxBuffer = options.maxBuffer ?? DEFAULT_MAX_BUFFER;
+
+        return new Promise((resolve, reject) => {
+            if (options.token?.isCancellationRequested) {
+                reject(new ProcessCancelledError(command, args));
+                return;
+            }
+
+            const child = spawn(command, args, {
+                cwd: options.cwd,
+                env: options.env,
+                stdio: ['ignore', 'pipe', 'pipe']
+            });
+
+            let stdout = '';
+            let stderr = '';
+            let reason: 'timeout' | 'cancelled' | 'maxBuffer' | undefined;
+            let settled = false;
+
+            const stop = (why: NonNullable<typeof reason>) => {
+                if (!reason) {
+                    reason = why;
+                    terminateProcess(child);
+                }
+            };
+
+            const timer = options.timeout ? setTimeout(() => stop('timeout'), options.timeout) : undefined;
+            const cancellation = options.token?.onCancellationRequested(() => stop('cancelled'));
+
+            const settle = (error?: Error) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                clearTimeout(timer);
+                cancellation?.dispose();
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve({ stdout, stderr });
+                }
+            };
+
+            child.stdout.on('data', (data: Buffer) => {
+                stdout += data.toString();
+                if (stdout.length > maxBuffer) {
+                    stop('maxBuffer');
+                }
+            });
+            child.stderr.on('data', (data: Buffer) => {
+                stderr += data.toString();
+                if (stderr.length > maxBuffer) {
+                    stop('maxBuffer');
+                }
+            });
+
+            child.on('error', (error: NodeJS.ErrnoException) => {
+                settle(error.code === 'ENOENT'
+                    ? new CommandNotFoundError(command, args)
+                    : new ProcessError(command, args, null, stdout, stderr, `${commandLine(command, args)} failed: ${error.message}`));
+            });
+
+            child.on('close', (code) => {
+                if (reason === 'timeout') {
+                    settle(new ProcessTimeoutError(command, args, options.timeout!, stdout, stderr));
+                } else if (reason === 'cancelled') {
+                    settle(new ProcessCancelledError(command, args, stdout, stderr));
+                } else if (reason === 'maxBuffer') {
+                    settle(new ProcessError(command, args, code, stdout, stderr, `${commandLine(command, args)} produced more than ${maxBuffer} bytes of output`));
+                } else if (code !== 0) {
+                    settle(new ProcessError(command, args, code, stdout, stderr));
+                } else {
+                    settle();
+                }
+            });
+        });
+    }
+};
+
+let currentRunner: ProcessRunner = nodeProcessRunner;
+
+/**
+ * Replaces the runner every module uses, e.g. with a fake in tests.
+ * Returns the previous one so it can be restored.
+ */
+export function setProcessRunner(runner: ProcessRunner): ProcessRunner {
+    const previous = currentRunner;
+    currentRunner = runner;
+    return previous;
+}
+
+export function run(command: string, args: string[], options?: RunOptions): Promise<RunResult> {
+    return currentRunner.run(command, args, options);
+}
+
+export function spawnProcess(command: string, args: string[], options?: SpawnOptions): ChildProcess {
+    return currentRunner.spawn(command, args, options);
+}
@@ -0,0 +1,138 @@
+import { CancellationToken, ProcessCancelledError } from '../process/runner';
+
+/**
+ * What happens when a build starts while another one is still running.
+ */
+export type ConcurrentBuildMode = 'queue' | 'reject' | 'restart';
+
+export type JobOutcome<T> =
+    | { status: 'completed'; value: T }
+    | { status: 'cancelled' }
+    /** Another job was running and the mode is "reject" */
+    | { status: 'rejected' };
+
+/**
+ * Thrown by a job's steps once it has been cancelled.
+ */
+export class JobCancelledError extends Error {
+    constructor() {
+        super('Cancelled');
+        this.name = 'JobCancelledError';
+    }
+}
+
+export function isCancellation(error: unknown): boolean {
+    return error instanceof JobCancelledError || error instanceof ProcessCancelledError;
+}
+
+/**
+ * One run of the build, boot, install and launch pipeline. Its token is
+ * passed to every step so that cancelling stops whichever one is running.
+ */
+export class Job implements CancellationToken {
+    private cancelled = false;
+    private listeners = new Set<() => void>();
+
+    constructor(readonly name: string) {}
+
+    get isCancellationRequested(): boolean {
+        return this.cancelled;
+    }
+
+    onCancellationRequested(listener: () => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    cancel() {
+        if (this.cancelled) {
+            return;
+        }
+        this.cancelled = true;
+        for (const listener of [...this.listeners]) {
+            listener();
+        }
+        this.listeners.clear();
+    }
+
+    /**
+     * Call between steps: the next one shouldn't start once the job is cancelled.
+     */
+    throwIfCancelled() {
+        if (this.cancelled) {
+            throw new JobCancelledError();
+        }
+    }
+}
+
+/**
+ * Runs one job at a time. Starting a job while another runs queues it behind
+ * the running one, is rejected, or cancels the running one first, by mode.
+ */
+export class JobRunner {
+    private current: Job | undefined;
+    private waiting: Job[] = [];
+    // Settles when the last job started so far has finished
+    private tail: Promise<void> = Promise.resolve();
+
+    constructor(private readonly getMode: () => ConcurrentBuildMode) {}
+
+    get isRunning(): boolean {
+        return this.current !== undefined || this.waiting.length > 0;
+    }
+
+    get currentJob(): Job | undefined {
+        return this.current;
+    }
+
+    /**
+     * Runs the work as a job; `mode` overrides the configured one for this job.
+     */
+    async run<T>(name: string, work: (job: Job) => Promise<T>, mode = this.getMode()): Promise<JobOutcome<T>> {
+        if (this.isRunning) {
+            if (mode === 'reject') {
+                return { status: 'rejected' };
+            }
+            if (mode === 'restart') {
+                this.cancel();
+            }
+        }
+
+        const job = new Job(name);
+        const previous = this.tail;
+        let release!: () => void;
+        this.tail = new Promise(resolve => release = resolve);
+        this.waiting.push(job);
+
+        try {
+            await previous;
+            this.waiting.splice(this.waiting.indexOf(job), 1);
+            if (job.isCancellationRequested) {
+                return { status: 'cancelled' };
+            }
+
+            this.current = job;
+            const value = await work(job);
+            return job.isCancellationRequested ? { status: 'cancelled' } : { status: 'completed', value };
+        } catch (error) {
+            if (job.isCancellationRequested || isCancellation(error)) {
+                return { status: 'cancelled' };
+            }
+            throw error;
+        } finally {
+            if (this.current === job) {
+                this.current = undefined;
+            }
+            release();
+        }
+    }
+
+    /**
+     * Cancels the running job and every queued one. Returns false if there were none.
+     */
+    cancel(): boolean {
+        const jobs = [...(this.current ? [this.current] : []), ...this.waiting];
+        jobs.forEach(job => job.cancel());
+        return jobs.length > 0;
+    }
+}
@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import { BuildResult } from '../xcode/build';
+import { Device, bootDevice, needsBoot, installApp, launchApp, getLogStreamSpecs } from '../devices/manager';
+import { sdkName } from '../devices/platform';
+import { LogStreamManager } from '../logs/streams';
+import { CancellationToken } from '../process/runner';
+import { JobCancelledError, isCancellation } from './job';
+
+/**
+ * What a multi-device run needs from the rest of the extension.
+ */
+export interface MultiRunHost {
+    build(device: Device): Promise<BuildResult | undefined>;
+    getBundleId(device: Device, result: BuildResult): Promise<string | undefined>;
+}
+
+export interface DeviceRunResult {
+    device: Device;
+    success: boolean;
+    /** The run was stopped before it got to this device */
+    cancelled?: boolean;
+    bundleId?: string;
+    error?: string;
+}
+
+/**
+ * Devices that can share one build: each SDK, and each way of running on the
+ * Mac, needs a build of its own.
+ */
+export function groupByBuild(devices: Device[]): Device[][] {
+    const groups = new Map<string, Device[]>();
+    for (const device of devices) {
+        const key = device.variant ?? sdkName(device) ?? device.type;
+        if (!groups.has(key)) {
+            groups.set(key, []);
+        }
+        groups.get(key)!.push(device);
+    }
+    return [...groups.values()];
+}
+
+/**
+ * Multi-select device picker with the given UDIDs preselected.
+ */
+export async function pickDevices(devices: Device[], selected: string[]): Promise<Device[] | undefined> {
+    const items = devices.map(device => ({
+        label: `${device.type === 'device' ? '$(plug)' : device.state === 'Booted' ? '$(vm-running)' : '$(device-mobile)'} ${device.name}`,
+        description: `${device.platform} ${device.osVersion}`,
+        detail: device.state,
+        picked: selected.includes(device.udid),
+        device
+    }));
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select devices to run on',
+        canPickMany: true,
+        matchOnDescription: true
+    });
+
+    return picked?.map(item => item.device);
+}
+
+/**
+ * One "SimBuild Log: <device>" output channel and console process per device.
+ */
+export class DeviceConsoles implements vscode.Disposable {
+    private channels = new Map<string, vscode.OutputChannel>();
+    // Streams are named by device UDID
+    private streams = new LogStreamManager();
+
+    private getChannel(device: Device): vscode.OutputChannel {
+        let channel = this.channels.get(device.udid);
+        if (!channel) {
+            channel = vscode.window.createOutputChannel(`SimBuild Log: ${device.name}`);
+            this.channels.set(device.udid, channel);
+        }
+        return channel;
+    }
+
+    /**
+     * Launches the app attached to its console. Returns false when the device
+     * has no console to attach to, and the app has to be launched on its own.
+     */
+    start(device: Device, bundleId: string): boolean {
+        const channel = this.getChannel(device);
+        channel.clear();
+        channel.appendLine(`📱 Console for ${bundleId} on ${device.name}`);
+        channel.appendLine('─'.repeat(60));
+
+        const [spec] = getLogStreamSpecs(device, bundleId, 'stdout');
+        if (!spec) {
+            channel.appendLine(`Console output isn't available for ${device.name}`);
+            return false;
+        }
+
+        return this.streams.start({ ...spec, name: device.udid }, {
+            onLog: (line) => channel.appendLine(line),
+            onError: (error) => channel.appendLine(`[Error] ${error}`),
+            onClose: () => {
+                channel.appendLine('─'.repeat(60));
+                channel.appendLine('📱 Console ended (app terminated)');
+            }
+        });
+    }
+
+    stop(device: Device): boolean {
+        return this.streams.stop(device.udid);
+    }
+
+    stopAll(): boolean {
+        return this.streams.stopAll();
+    }
+
+    show(device: Device) {
+        this.getChannel(device).show(true);
+    }
+
+    dispose() {
+        this.stopAll();
+        for (const channel of this.channels.values()) {
+            channel.dispose();
+        }
+        this.channels.clear();
+    }
+}
+
+async function deploy(
+    device: Device,
+    appPath: string,
+    bundleId: string,
+    consoles: DeviceConsoles,
+    report: (status: string) => void,
+    token?: CancellationToken
+): Promise<void> {
+    if (needsBoot(device)) {
+        report('Booting...');
+        await bootDevice(device, token);
+    }
+
+    report('Installing...');
+    await installApp(device, appPath, token);
+    if (token?.isCancellationRequested) {
+        throw new JobCancelledError();
+    }
+
+    report('Launching...');
+    if (consoles.start(device, bundleId)) {
+        report('Running');
+    } else {
+        await launchApp(device, bundleId, token);
+        report('Running (no console)');
+    }
+}
+
+/**
+ * Builds once per SDK, then boots, installs and launches on every device in parallel.
+ * Once the token is cancelled no further builds or launches start.
+ */
+export async function runOnDevices(
+    devices: Device[],
+    host: MultiRunHost,
+    consoles: DeviceConsoles,
+    token?: CancellationToken
+): Promise<DeviceRunResult[]> {
+    const results: DeviceRunResult[] = [];
+    const status = new Map<string, string>(devices.map(d => [d.udid, 'Waiting']));
+
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: `SimBuild: Running on ${devices.length} devices`
+        },
+        async (progress) => {
+            const update = (device: Device, message: string) => {
+                status.set(device.udid, message);
+                progress.report({
+                    message: devices.map(d => `${d.name}: ${status.get(d.udid)}`).join(' · ')
+                });
+            };
+
+            const cancelled = (device: Device) => {
+                update(device, 'Cancelled');
+                results.push({ device, success: false, cancelled: true, error: 'Cancelled' });
+            };
+
+            // Builds share DerivedData, so they run one after another
+            const deployments: Promise<void>[] = [];
+            for (const group of groupByBuild(devices)) {
+                if (token?.isCancellationRequested) {
+                    group.forEach(cancelled);
+                    continue;
+                }
+
+                group.forEach(d => update(d, 'Building...'));
+                const result = await host.build(group[0]);
+
+                // A cancelled build comes back without a result, it didn't fail
+                if (token?.isCancellationRequested || result?.cancelled) {
+                    group.forEach(cancelled);
+                    continue;
+                }
+
+                if (!result?.success || !result.appPath) {
+                    for (const device of group) {
+                        update(device, 'Build failed');
+                        results.push({ device, success: false, error: result?.error ?? 'Build failed' });
+                    }
+                    continue;
+                }
+
+                for (const device of group) {
+                    deployments.push((async () => {
+                        try {
+                            const bundleId = await host.getBundleId(device, result);
+                            if (!bundleId) {
+                                throw new Error('Could not determine the bundle identifier');
+                            }
+                            await deploy(device, result.appPath!, bundleId, consoles, message => update(device, message), token);
+                            results.push({ device, success: true, bundleId });
+                        } catch (error: any) {
+                            if (isCancellation(error)) {
+                                cancelled(device);
+                                return;
+                            }
+                            update(device, 'Failed');
+                            results.push({ device, success: false, error: error.message });
+                        }
+                    })());
+                }
+            }
+
+            await Promise.all(deployments);
+        }
+    );
+
+    return results;
+}
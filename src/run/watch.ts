@@ -0,0 +1,152 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export interface WatchOptions {
+    /** Globs relative to the project directory */
+    include: string[];
+    exclude: string[];
+    /** Milliseconds without further changes before a rebuild starts */
+    debounce: number;
+}
+
+export const DEFAULT_WATCH_INCLUDE = [
+    '**/*.swift',
+    '**/*.{h,m,mm}',
+    '**/*.{storyboard,xib}',
+    '**/*.xcassets/**'
+];
+
+export const DEFAULT_WATCH_EXCLUDE = [
+    '**/build/**',
+    '**/DerivedData/**',
+    '**/.build/**',
+    '**/Pods/**'
+];
+
+/**
+ * Converts a glob with `**`, `*`, `?` and `{a,b}` to a regular expression
+ * matching `/`-separated relative paths.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braces = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // "**/" also matches no folder at all
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            braces++;
+            source += '(?:';
+        } else if (char === '}' && braces > 0) {
+            braces--;
+            source += ')';
+        } else if (char === ',' && braces > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a changed file should trigger a rebuild.
+ */
+export function isWatchedFile(relativePath: string, options: Pick<WatchOptions, 'include' | 'exclude'>): boolean {
+    const file = relativePath.split(path.sep).join('/');
+    const matches = (globs: string[]) => globs.some(glob => globToRegExp(glob).test(file));
+    return matches(options.include) && !matches(options.exclude);
+}
+
+/**
+ * Collects changed files and hands them over once none have changed for the delay.
+ */
+export class ChangeDebouncer implements vscode.Disposable {
+    private files = new Set<string>();
+    private timer: NodeJS.Timeout | undefined;
+
+    constructor(private readonly delay: number, private readonly onSettled: (files: string[]) => void) {}
+
+    add(file: string) {
+        this.files.add(file);
+        clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            const files = [...this.files];
+            this.files.clear();
+            this.timer = undefined;
+            this.onSettled(files);
+        }, this.delay);
+    }
+
+    dispose() {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        this.files.clear();
+    }
+}
+
+/**
+ * Watches the sources of a project and reports batches of changed files,
+ * which the extension answers with a rebuild and relaunch.
+ */
+export class WatchMode implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private root: string | undefined;
+
+    private readonly _onDidChangeFiles = new vscode.EventEmitter<string[]>();
+    readonly onDidChangeFiles = this._onDidChangeFiles.event;
+
+    get isActive(): boolean {
+        return this.root !== undefined;
+    }
+
+    /**
+     * Starts watching the directory, replacing what was watched before.
+     */
+    start(root: string, options: WatchOptions) {
+        this.stop();
+        this.root = root;
+
+        const debouncer = new ChangeDebouncer(options.debounce, files => this._onDidChangeFiles.fire(files));
+        const onChange = (uri: vscode.Uri) => {
+            if (isWatchedFile(path.relative(root, uri.fsPath), options)) {
+                debouncer.add(uri.fsPath);
+            }
+        };
+
+        this.disposables.push(debouncer);
+        for (const glob of options.include) {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(root, glob));
+            this.disposables.push(
+                watcher,
+                watcher.onDidCreate(onChange),
+                watcher.onDidChange(onChange),
+                watcher.onDidDelete(onChange)
+            );
+        }
+    }
+
+    stop() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.root = undefined;
+    }
+
+    dispose() {
+        this.stop();
+        this._onDidChangeFiles.dispose();
+    }
+}
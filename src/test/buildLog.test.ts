@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { parseBuildLog } from '../xcode/buildLog';
+
+suite('Build Log Parser', () => {
+	test('parses Swift and Clang diagnostics with locations', () => {
+		const issues = parseBuildLog([
+			'/Users/me/App/ContentView.swift:12:9: error: cannot find \'foo\' in scope',
+			'/Users/me/App/Legacy.m:40:1: warning: unused variable \'bar\' [-Wunused-variable]',
+			'/Users/me/App/Legacy.h:3: note: previous definition is here',
+			'/Users/me/App/Bridge.h:1:9: fatal error: \'Missing.h\' file not found',
+		].join('\n'));
+
+		assert.deepStrictEqual(issues, [
+			{ severity: 'error', message: 'cannot find \'foo\' in scope', file: '/Users/me/App/ContentView.swift', line: 12, column: 9 },
+			{ severity: 'warning', message: 'unused variable \'bar\' [-Wunused-variable]', file: '/Users/me/App/Legacy.m', line: 40, column: 1 },
+			{ severity: 'note', message: 'previous definition is here', file: '/Users/me/App/Legacy.h', line: 3, column: undefined },
+			{ severity: 'error', message: '\'Missing.h\' file not found', file: '/Users/me/App/Bridge.h', line: 1, column: 9 },
+		]);
+	});
+
+	test('reports duplicated diagnostics once', () => {
+		const line = '/Users/me/App/A.swift:1:1: warning: deprecated';
+		assert.strictEqual(parseBuildLog(`${line}\n${line}\n`).length, 1);
+	});
+
+	test('parses linker errors and undefined symbols', () => {
+		const issues = parseBuildLog([
+			'ld: warning: ignoring duplicate libraries: \'-lc++\'',
+			'Undefined symbols for architecture arm64:',
+			'  "_OBJC_CLASS_$_Analytics", referenced from:',
+			'       in AppDelegate.o',
+			'ld: symbol(s) not found for architecture arm64',
+			'clang: error: linker command failed with exit code 1 (use -v to see invocation)',
+		].join('\n'));
+
+		assert.deepStrictEqual(issues.map(i => [i.severity, i.message]), [
+			['warning', 'ld: ignoring duplicate libraries: \'-lc++\''],
+			['error', 'Undefined symbols for architecture arm64: _OBJC_CLASS_$_Analytics'],
+			['error', 'ld: symbol(s) not found for architecture arm64'],
+			['error', 'linker command failed with exit code 1 (use -v to see invocation)'],
+		]);
+	});
+
+	test('parses script phase failures', () => {
+		const issues = parseBuildLog([
+			'/Users/me/Library/Developer/Xcode/DerivedData/App/Script-1A2B.sh: line 2: swiftlint: command not found',
+			'Command PhaseScriptExecution failed with a nonzero exit code',
+			'** BUILD FAILED **',
+			'',
+			'The following build commands failed:',
+			'\tPhaseScriptExecution Run\\ SwiftLint /Users/me/Library/Developer/Xcode/DerivedData/App/Script-1A2B.sh (in target \'App\' from project \'App\')',
+			'(1 failure)',
+		].join('\n'));
+
+		assert.deepStrictEqual(issues.map(i => [i.severity, i.message]), [
+			['error', 'swiftlint: command not found'],
+			['error', 'Script phase "Run SwiftLint" in target \'App\' failed'],
+		]);
+	});
+});
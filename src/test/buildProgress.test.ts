@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+	BuildProgress,
+	estimateRemaining,
+	formatBuildProgress,
+	parseBuildStep,
+	updateBuildRecord
+} from '../xcode/buildProgress';
+
+const fixtures = path.resolve(__dirname, '../../src/test/fixtures/build');
+
+suite('Build Progress', () => {
+	const log = fs.readFileSync(path.join(fixtures, 'xcodebuild-build.log'), 'utf8');
+
+	test('parses build steps with their target', () => {
+		assert.deepStrictEqual(
+			parseBuildStep('Ld /tmp/Networking normal (in target \'Networking\' from project \'SampleApp\')'),
+			{ kind: 'link', action: 'Ld', target: 'Networking', project: 'SampleApp' }
+		);
+		assert.strictEqual(parseBuildStep('    Target \'Storage\' in project \'SampleApp\' (no dependencies)'), undefined);
+		assert.strictEqual(parseBuildStep('** BUILD SUCCEEDED **'), undefined);
+	});
+
+	test('tracks targets and compiled files through the build log', () => {
+		const progress = new BuildProgress(8);
+		progress.feed(log.slice(0, log.indexOf('Ld ')));
+
+		assert.deepStrictEqual(progress.snapshot, {
+			targetIndex: 2,
+			targetCount: 3,
+			target: 'Storage',
+			action: 'CompileC',
+			filesCompiled: 3,
+			filesTotal: 8
+		});
+		assert.strictEqual(formatBuildProgress(progress.snapshot), 'Target 2/3 · 3/8 files');
+
+		progress.feed(log.slice(log.indexOf('Ld ')));
+		assert.strictEqual(formatBuildProgress(progress.snapshot), 'Target 3/3 · 4/8 files');
+		assert.strictEqual(progress.snapshot.action, 'CodeSign');
+	});
+
+	test('drops the file total once a build compiles more than last time', () => {
+		const progress = new BuildProgress(2);
+		progress.feed(log);
+
+		assert.strictEqual(formatBuildProgress(progress.snapshot), 'Target 3/3 · 4 files');
+	});
+
+	test('estimates the time left from recent builds', () => {
+		let record = updateBuildRecord(undefined, 60000, 100);
+		record = updateBuildRecord(record, 40000, 20);
+		record = updateBuildRecord(record, 50000, 100);
+
+		assert.deepStrictEqual(record, { durations: [60000, 40000, 50000], files: 100 });
+
+		const snapshot = { targetIndex: 1, filesCompiled: 0, filesTotal: 100 };
+		assert.strictEqual(estimateRemaining(record, 10000, snapshot), 40000);
+		assert.strictEqual(estimateRemaining(record, 20000, { ...snapshot, filesCompiled: 50 }), 20000);
+		assert.strictEqual(estimateRemaining(record, 70000, snapshot), 0);
+		assert.strictEqual(estimateRemaining(undefined, 10000, snapshot), undefined);
+
+		assert.strictEqual(formatBuildProgress({ ...snapshot, filesCompiled: 50 }, 80000), 'Target 1 · 50/100 files · ~1m 20s left');
+	});
+});
@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { selectAppProduct, TargetBuildSettings } from '../xcode/buildSettings';
+
+const fixture = path.resolve(__dirname, '../../src/test/fixtures/buildSettings/show-build-settings.json');
+
+suite('Build Settings', () => {
+	const settings: TargetBuildSettings[] = JSON.parse(fs.readFileSync(fixture, 'utf8'));
+
+	test('resolves the app product when its name differs from the scheme', () => {
+		const productsDir = '/Users/dev/Library/Developer/Xcode/DerivedData/Shop-abc/Build/Products/Debug-iphonesimulator';
+
+		assert.deepStrictEqual(selectAppProduct(settings, 'Shop (Staging)'), {
+			target: 'ShopApp',
+			productName: 'Shop Dev.app',
+			targetBuildDir: productsDir,
+			appPath: `${productsDir}/Shop Dev.app`,
+			bundleId: 'com.example.shop.dev',
+			executablePath: `${productsDir}/Shop Dev.app/Shop Dev`
+		});
+	});
+
+	test('returns undefined when the scheme builds no app', () => {
+		assert.strictEqual(selectAppProduct(settings.slice(0, 1), 'Networking'), undefined);
+	});
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildTimingEntry, BuildTimingHistory, parseBuildTimingSummary, slowestSteps, toCsv } from '../xcode/buildTiming';
+
+const fixtures = path.resolve(__dirname, '../../src/test/fixtures/build');
+
+function entry(timestamp: string, duration: number, scheme = 'SampleApp'): BuildTimingEntry {
+	return {
+		timestamp,
+		scheme,
+		configuration: 'Debug',
+		destination: 'iPhone 15',
+		clean: false,
+		success: true,
+		duration,
+		targets: [{ name: 'Networking', duration: 2410 }, { name: 'SampleApp', duration: 9100 }],
+		tasks: [],
+		slowestSteps: []
+	};
+}
+
+suite('Build Timing', () => {
+	test('parses the build timing summary, slowest first', () => {
+		const output = fs.readFileSync(path.join(fixtures, 'xcodebuild-build.log'), 'utf8');
+
+		assert.deepStrictEqual(parseBuildTimingSummary(output), [
+			{ name: 'SwiftCompile', tasks: 3, duration: 12482 },
+			{ name: 'PhaseScriptExecution', tasks: 1, duration: 2004 },
+			{ name: 'CompileC', tasks: 1, duration: 921 },
+			{ name: 'Ld', tasks: 1, duration: 310 },
+			{ name: 'CodeSign', tasks: 1, duration: 120 },
+		]);
+		assert.deepStrictEqual(parseBuildTimingSummary('** BUILD SUCCEEDED **'), []);
+	});
+
+	test('keeps only the slowest steps', () => {
+		const steps = [10, 300, 20, 200].map(duration => ({ target: 'App', title: `Step ${duration}`, duration }));
+
+		assert.deepStrictEqual(slowestSteps(steps, 2).map(s => s.duration), [300, 200]);
+	});
+
+	test('exports builds as CSV', () => {
+		const csv = toCsv([{ ...entry('2026-03-01T10:00:00.000Z', 11900), scheme: 'Sample, Staging' }]);
+
+		assert.strictEqual(csv, [
+			'timestamp,scheme,configuration,destination,clean,success,duration_s,targets',
+			'2026-03-01T10:00:00.000Z,"Sample, Staging",Debug,iPhone 15,false,true,11.9,Networking=2.4; SampleApp=9.1',
+			''
+		].join('\n'));
+	});
+
+	test('stores a bounded history of builds', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'simbuild-timing-'));
+		try {
+			const history = new BuildTimingHistory(path.join(directory, 'nested', 'build-timings.json'), 2);
+			await history.add(entry('2026-03-01T10:00:00.000Z', 1000));
+			await history.add(entry('2026-03-02T10:00:00.000Z', 2000));
+			await history.add(entry('2026-03-03T10:00:00.000Z', 3000));
+
+			assert.deepStrictEqual((await history.list()).map(e => e.duration), [2000, 3000]);
+
+			await history.clear();
+			assert.deepStrictEqual(await history.list(), []);
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+});
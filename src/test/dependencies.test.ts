@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	checkCocoaPods,
+	checkSwiftPackages,
+	parseManifestPackageURLs,
+	parsePinnedPackages,
+	parseProjectPackageURLs
+} from '../xcode/dependencies';
+
+const fixtures = path.resolve(__dirname, '../../src/test/fixtures/dependencies');
+
+suite('Dependencies', () => {
+	let directory: string;
+
+	setup(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'simbuild-dependencies-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('reads package URLs from projects, manifests and Package.resolved', () => {
+		const resolved = fs.readFileSync(path.join(fixtures, 'Package.resolved'), 'utf8');
+		const pbxproj = fs.readFileSync(path.join(fixtures, 'project.pbxproj.txt'), 'utf8');
+
+		assert.deepStrictEqual(parsePinnedPackages(resolved), [
+			'https://github.com/alamofire/alamofire',
+			'https://github.com/apple/swift-collections'
+		]);
+		assert.deepStrictEqual(
+			parsePinnedPackages('{"object":{"pins":[{"package":"Nuke","repositoryURL":"https://github.com/kean/Nuke.git"}]},"version":1}'),
+			['https://github.com/kean/nuke']
+		);
+		assert.deepStrictEqual(parseProjectPackageURLs(pbxproj), [
+			'https://github.com/alamofire/alamofire',
+			'https://github.com/apple/swift-collections',
+			'https://github.com/onevcat/kingfisher'
+		]);
+		assert.deepStrictEqual(parseManifestPackageURLs([
+			'.package(url: "https://github.com/apple/swift-argument-parser", from: "1.3.0"),',
+			'.package(name: "Core", url: "https://github.com/acme/Core.git", branch: "main"),',
+			'.package(path: "../Local")'
+		].join('\n')), [
+			'https://github.com/apple/swift-argument-parser',
+			'https://github.com/acme/core'
+		]);
+	});
+
+	test('reports Swift packages missing from Package.resolved', async () => {
+		const projectPath = path.join(directory, 'App.xcodeproj');
+		const swiftpm = path.join(projectPath, 'project.xcworkspace', 'xcshareddata', 'swiftpm');
+		fs.mkdirSync(swiftpm, { recursive: true });
+		fs.copyFileSync(path.join(fixtures, 'project.pbxproj.txt'), path.join(projectPath, 'project.pbxproj'));
+		const project = { name: 'App', path: projectPath, type: 'project' as const };
+
+		assert.deepStrictEqual(await checkSwiftPackages(project), { manager: 'spm', reason: 'Package.resolved is missing' });
+
+		fs.copyFileSync(path.join(fixtures, 'Package.resolved'), path.join(swiftpm, 'Package.resolved'));
+		assert.deepStrictEqual(await checkSwiftPackages(project), { manager: 'spm', reason: 'Swift packages not resolved: kingfisher' });
+	});
+
+	test('compares the Podfile lock with the installed pods', async () => {
+		assert.strictEqual(await checkCocoaPods(directory), undefined);
+
+		fs.writeFileSync(path.join(directory, 'Podfile'), 'pod \'Alamofire\'\n');
+		assert.strictEqual((await checkCocoaPods(directory))?.reason, 'Podfile.lock is missing');
+
+		fs.writeFileSync(path.join(directory, 'Podfile.lock'), 'PODS:\n  - Alamofire (5.9.1)\n');
+		assert.strictEqual((await checkCocoaPods(directory))?.reason, 'Pods are not installed');
+
+		fs.mkdirSync(path.join(directory, 'Pods'));
+		fs.writeFileSync(path.join(directory, 'Pods', 'Manifest.lock'), 'PODS:\n  - Alamofire (5.8.0)\n');
+		assert.strictEqual((await checkCocoaPods(directory))?.reason, 'Pods are out of date with Podfile.lock');
+
+		fs.copyFileSync(path.join(directory, 'Podfile.lock'), path.join(directory, 'Pods', 'Manifest.lock'));
+		assert.strictEqual(await checkCocoaPods(directory), undefined);
+	});
+
+	test('compares the Podfile with the checksum in Podfile.lock', async () => {
+		const podfile = 'pod \'Alamofire\'\n';
+		const lock = 'PODS:\n  - Alamofire (5.9.1)\n\n'
+			+ 'PODFILE CHECKSUM: 578f70c125682562417781585117f3fa148c0918\n\nCOCOAPODS: 1.15.2\n';
+		fs.writeFileSync(path.join(directory, 'Podfile'), podfile);
+		fs.writeFileSync(path.join(directory, 'Podfile.lock'), lock);
+		fs.mkdirSync(path.join(directory, 'Pods'));
+		fs.writeFileSync(path.join(directory, 'Pods', 'Manifest.lock'), lock);
+
+		// Touching the Podfile, e.g. by a checkout, changes nothing
+		fs.utimesSync(path.join(directory, 'Podfile'), new Date(2030, 0, 1), new Date(2030, 0, 1));
+		assert.strictEqual(await checkCocoaPods(directory), undefined);
+
+		fs.appendFileSync(path.join(directory, 'Podfile'), 'pod \'Kingfisher\'\n');
+		assert.strictEqual((await checkCocoaPods(directory))?.reason, 'Podfile changed since the last pod install');
+	});
+});
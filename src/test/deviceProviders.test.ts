@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import { Device, getLogStreamSpecs } from '../devices/manager';
+import { parseXctraceDevices } from '../devices/legacy';
+import { DeviceProvider, DeviceProviders } from '../devices/provider';
+
+function device(udid: string, provider?: string): Device {
+	return { udid, name: `Phone ${udid}`, type: 'device', state: 'Connected', platform: 'iOS', osVersion: '17.5', isAvailable: true, provider };
+}
+
+// Handles every physical device and records the operations it was asked to do
+function provider(id: string, devices: Device[], overrides: Partial<DeviceProvider> = {}): DeviceProvider & { calls: string[] } {
+	const calls: string[] = [];
+	return {
+		id,
+		calls,
+		handles: d => d.type === 'device',
+		listDevices: async () => devices,
+		install: async (d, appPath) => {
+			calls.push(`install ${d.udid} ${appPath}`);
+		},
+		...overrides
+	};
+}
+
+suite('Device Providers', () => {
+	test('lists the devices of every provider once', async () => {
+		const providers = new DeviceProviders([
+			provider('devicectl', [device('A'), device('B')]),
+			provider('broken', [], { listDevices: async () => { throw new Error('not installed'); } }),
+			provider('legacy', [device('B'), device('C')])
+		]);
+
+		const devices = await providers.listDevices();
+
+		assert.deepStrictEqual(devices.map(d => [d.udid, d.provider]), [['A', 'devicectl'], ['B', 'devicectl'], ['C', 'legacy']]);
+	});
+
+	test('lists fallback devices only when devicectl finds none', async () => {
+		const legacy = provider('legacy', [device('L')], { fallbackFor: 'devicectl' });
+		let legacyListed = 0;
+		const listLegacy = legacy.listDevices;
+		legacy.listDevices = () => {
+			legacyListed++;
+			return listLegacy();
+		};
+
+		const withDevices = new DeviceProviders([provider('devicectl', [device('A')]), legacy]);
+		assert.deepStrictEqual((await withDevices.listDevices()).map(d => d.udid), ['A']);
+		assert.strictEqual(legacyListed, 0);
+
+		const empty = new DeviceProviders([provider('devicectl', []), legacy]);
+		assert.deepStrictEqual((await empty.listDevices()).map(d => d.udid), ['L']);
+
+		const broken = new DeviceProviders([provider('devicectl', [], { listDevices: async () => { throw new Error('Xcode 14'); } }), legacy]);
+		assert.deepStrictEqual((await broken.listDevices()).map(d => d.udid), ['L']);
+		assert.strictEqual(legacyListed, 2);
+
+		assert.deepStrictEqual(await empty.list({ fallbacks: false }), { devices: [], failed: [], skipped: ['legacy'] });
+		assert.deepStrictEqual((await broken.list({ fallbacks: false })).failed, []);
+		assert.strictEqual(legacyListed, 2);
+	});
+
+	test('reads connected devices from xctrace', () => {
+		const output = [
+			'== Devices ==',
+			'My Mac (14.5) (6A2B1C3D-0000-1111-2222-333344445555)',
+			'iPhone 8 (16.7.8) (00008030-001A2B3C4D5E6F70)',
+			'',
+			'== Devices Offline ==',
+			'iPad (15.8) (00008020-000A1B2C3D4E5F60)',
+			'',
+			'== Simulators ==',
+			'iPhone 15 Simulator (17.5) (7C1B5D4E-0000-1111-2222-333344445555)'
+		].join('\n');
+
+		assert.deepStrictEqual(parseXctraceDevices(output).map(d => [d.name, d.osVersion, d.udid]), [
+			['iPhone 8', '16.7.8', '00008030-001A2B3C4D5E6F70']
+		]);
+	});
+
+	test('asks the provider that listed the device first', async () => {
+		const devicectl = provider('devicectl', []);
+		const legacy = provider('legacy', []);
+		const providers = new DeviceProviders([devicectl, legacy]);
+
+		await providers.perform(device('A', 'legacy'), 'install', p => p.install(device('A'), '/App.app'));
+
+		assert.deepStrictEqual(legacy.calls, ['install A /App.app']);
+		assert.deepStrictEqual(devicectl.calls, []);
+	});
+
+	test('falls back to the next provider when one fails', async () => {
+		const failing = provider('devicectl', [], { install: async () => { throw new Error('iOS 16 is not supported'); } });
+		const legacy = provider('legacy', []);
+		const providers = new DeviceProviders([failing, legacy]);
+
+		await providers.perform(device('A', 'devicectl'), 'install', p => p.install(device('A'), '/App.app'));
+		assert.deepStrictEqual(legacy.calls, ['install A /App.app']);
+
+		legacy.install = async () => { throw new Error('ios-deploy not found'); };
+		await assert.rejects(
+			providers.perform(device('A', 'devicectl'), 'install', p => p.install(device('A'), '/App.app')),
+			/iOS 16 is not supported/
+		);
+	});
+
+	test('rejects operations no provider has', async () => {
+		const providers = new DeviceProviders([provider('devicectl', [])]);
+
+		assert.strictEqual(providers.supports(device('A'), 'launchForDebugging'), false);
+		await assert.rejects(
+			providers.perform(device('A'), 'launchForDebugging', p => p.launchForDebugging(device('A'), 'com.example.App')),
+			/Phone A doesn't support debugging/
+		);
+	});
+
+	test('registered providers can be removed again', () => {
+		const providers = new DeviceProviders([provider('devicectl', [])]);
+		const registration = providers.register(provider('usb', []));
+
+		assert.throws(() => providers.register(provider('usb', [])), /already registered/);
+		registration.dispose();
+		assert.deepStrictEqual(providers.all.map(p => p.id), ['devicectl']);
+	});
+
+	test('takes each log stream from the first provider that has it', () => {
+		const specs = getLogStreamSpecs(device('A', 'legacy'), 'com.example.App', 'both');
+
+		assert.deepStrictEqual(specs.map(s => [s.name, s.command, s.args[0]]), [
+			['stdout', 'xcrun', 'devicectl'],
+			['system', 'idevicesyslog', '-u']
+		]);
+		assert.deepStrictEqual(getLogStreamSpecs({ ...device('A'), type: 'simulator' }, 'com.example.App', 'system').map(s => s.args[0]), ['simctl']);
+	});
+});
@@ -0,0 +1,75 @@
+import { ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { CommandNotFoundError, ProcessError, ProcessRunner, RunOptions, RunResult, SpawnOptions } from '../process/runner';
+
+export interface FakeCall {
+	command: string;
+	args: string[];
+	options?: RunOptions;
+}
+
+interface FakeResponse {
+	command: string;
+	args: string[];
+	result: Partial<RunResult> & { exitCode?: number };
+}
+
+/**
+ * Answers commands with canned output and records every call, so code that
+ * shells out to xcrun or xcodebuild can be tested without Xcode.
+ */
+export class FakeProcessRunner implements ProcessRunner {
+	readonly calls: FakeCall[] = [];
+	private responses: FakeResponse[] = [];
+
+	/**
+	 * Answers calls whose arguments start with `args`. Later responses win.
+	 * Commands without a response fail as if they weren't installed.
+	 */
+	respond(command: string, args: string[], result: Partial<RunResult> & { exitCode?: number }): this {
+		this.responses.unshift({ command, args, result });
+		return this;
+	}
+
+	private find(command: string, args: string[]): FakeResponse | undefined {
+		return this.responses.find(r => r.command === command && r.args.every((arg, i) => args[i] === arg));
+	}
+
+	async run(command: string, args: string[], options?: RunOptions): Promise<RunResult> {
+		this.calls.push({ command, args, options });
+
+		const response = this.find(command, args);
+		if (!response) {
+			throw new CommandNotFoundError(command, args);
+		}
+
+		const { stdout = '', stderr = '', exitCode = 0 } = response.result;
+		if (exitCode !== 0) {
+			throw new ProcessError(command, args, exitCode, stdout, stderr);
+		}
+		return { stdout, stderr };
+	}
+
+	spawn(command: string, args: string[], options?: SpawnOptions): ChildProcess {
+		this.calls.push({ command, args, options });
+
+		const process = new EventEmitter() as ChildProcess & EventEmitter;
+		const stdout = new PassThrough();
+		const stderr = new PassThrough();
+		Object.assign(process, { stdout, stderr, kill: () => true });
+
+		const response = this.find(command, args);
+		setImmediate(() => {
+			if (!response) {
+				process.emit('error', Object.assign(new Error(`spawn ${command} ENOENT`), { code: 'ENOENT' }));
+				return;
+			}
+			stdout.end(response.result.stdout ?? '');
+			stderr.end(response.result.stderr ?? '');
+			process.emit('close', response.result.exitCode ?? 0);
+		});
+
+		return process;
+	}
+}
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findGeneratedProject, generatorCommand, isGeneratedProjectStale, isTuistManifest, selectManifests } from '../xcode/generator';
+import { XcodeProject } from '../xcode/project';
+
+suite('Project Generators', () => {
+	test('finds XcodeGen and Tuist manifests', () => {
+		const manifests = selectManifests([
+			'/repo/Modules/Workspace.swift',
+			'/repo/Modules/App/Project.swift',
+			'/repo/Other/Project.swift',
+			'/repo/App/project.yml'
+		]);
+
+		assert.deepStrictEqual(manifests.map(m => [m.kind, m.path]), [
+			['xcodegen', '/repo/App/project.yml'],
+			['tuist', '/repo/Modules/Workspace.swift'],
+			['tuist', '/repo/Other/Project.swift']
+		]);
+		assert.deepStrictEqual(generatorCommand(manifests[0]), { command: 'xcodegen', args: ['generate', '--spec', 'project.yml'] });
+		assert.deepStrictEqual(generatorCommand(manifests[1]), { command: 'tuist', args: ['generate', '--no-open'] });
+	});
+
+	test('tells Tuist manifests from Swift sources with the same name', () => {
+		assert.strictEqual(isTuistManifest('import ProjectDescription\n\nlet project = Project(name: "App", targets: [])\n'), true);
+		assert.strictEqual(isTuistManifest('// Tuist\n@preconcurrency import ProjectDescription\n'), true);
+		assert.strictEqual(isTuistManifest('import Foundation\n\nstruct Project: Codable {\n    let name: String\n}\n'), false);
+	});
+
+	test('matches the generated project next to the manifest', () => {
+		const [manifest] = selectManifests(['/repo/App/project.yml']);
+		const projects: XcodeProject[] = [
+			{ name: 'App', path: '/repo/App/App.xcodeproj', type: 'project' },
+			{ name: 'App', path: '/repo/App/App.xcworkspace', type: 'workspace' },
+			{ name: 'Other', path: '/repo/Other/Other.xcodeproj', type: 'project' }
+		];
+
+		assert.strictEqual(findGeneratedProject(manifest, projects)?.path, '/repo/App/App.xcworkspace');
+		assert.strictEqual(findGeneratedProject(manifest, projects.slice(2)), undefined);
+	});
+
+	test('regenerates when the manifest is newer than the project', () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'simbuild-generator-'));
+		try {
+			const manifestPath = path.join(directory, 'project.yml');
+			const projectPath = path.join(directory, 'App.xcodeproj');
+			fs.writeFileSync(manifestPath, 'name: App\n');
+			fs.mkdirSync(projectPath);
+			fs.writeFileSync(path.join(projectPath, 'project.pbxproj'), '');
+
+			const [manifest] = selectManifests([manifestPath]);
+			const project: XcodeProject = { name: 'App', path: projectPath, type: 'project' };
+
+			fs.utimesSync(manifestPath, new Date(2026, 0, 1), new Date(2026, 0, 1));
+			fs.utimesSync(path.join(projectPath, 'project.pbxproj'), new Date(2026, 0, 2), new Date(2026, 0, 2));
+			assert.strictEqual(isGeneratedProjectStale(manifest, project), false);
+
+			fs.utimesSync(manifestPath, new Date(2026, 0, 3), new Date(2026, 0, 3));
+			assert.strictEqual(isGeneratedProjectStale(manifest, project), true);
+			assert.strictEqual(isGeneratedProjectStale(manifest, undefined), true);
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import { ConcurrentBuildMode, Job, JobCancelledError, JobRunner } from '../run/job';
+
+/** Work that runs until it's resolved from the test, or the job is cancelled */
+function pending(): { work: (job: Job) => Promise<string>; started: Promise<Job>; finish(value: string): void } {
+	let finish!: (value: string) => void;
+	let start!: (job: Job) => void;
+	const started = new Promise<Job>(resolve => start = resolve);
+
+	const work = (job: Job) => new Promise<string>((resolve, reject) => {
+		start(job);
+		finish = resolve;
+		job.onCancellationRequested(() => reject(new JobCancelledError()));
+	});
+	return { work, started, finish: value => finish(value) };
+}
+
+suite('Jobs', () => {
+	function runner(mode: ConcurrentBuildMode) {
+		return new JobRunner(() => mode);
+	}
+
+	test('completes with the value of its work', async () => {
+		const jobs = runner('queue');
+
+		assert.deepStrictEqual(await jobs.run('Build', async () => 42), { status: 'completed', value: 42 });
+		assert.strictEqual(jobs.isRunning, false);
+	});
+
+	test('queues builds one after another', async () => {
+		const jobs = runner('queue');
+		const first = pending();
+		const order: string[] = [];
+
+		const firstRun = jobs.run('first', first.work);
+		await first.started;
+		const secondRun = jobs.run('second', async () => {
+			order.push('second');
+			return 'second';
+		});
+
+		order.push('first');
+		first.finish('first');
+
+		assert.deepStrictEqual(await firstRun, { status: 'completed', value: 'first' });
+		assert.deepStrictEqual(await secondRun, { status: 'completed', value: 'second' });
+		assert.deepStrictEqual(order, ['first', 'second']);
+	});
+
+	test('rejects a build while another runs', async () => {
+		const jobs = runner('reject');
+		const first = pending();
+
+		const firstRun = jobs.run('first', first.work);
+		await first.started;
+
+		assert.deepStrictEqual(await jobs.run('second', async () => 'second'), { status: 'rejected' });
+		assert.strictEqual(jobs.currentJob?.name, 'first');
+
+		first.finish('first');
+		assert.deepStrictEqual(await firstRun, { status: 'completed', value: 'first' });
+	});
+
+	test('restarts by cancelling the running build', async () => {
+		const jobs = runner('restart');
+		const first = pending();
+
+		const firstRun = jobs.run('first', first.work);
+		const firstJob = await first.started;
+		const secondRun = jobs.run('second', async () => 'second');
+
+		assert.strictEqual(firstJob.isCancellationRequested, true);
+		assert.deepStrictEqual(await firstRun, { status: 'cancelled' });
+		assert.deepStrictEqual(await secondRun, { status: 'completed', value: 'second' });
+	});
+
+	test('cancels the running and the queued builds', async () => {
+		const jobs = runner('queue');
+		const first = pending();
+		let secondStarted = false;
+
+		const firstRun = jobs.run('first', first.work);
+		await first.started;
+		const secondRun = jobs.run('second', async () => {
+			secondStarted = true;
+		});
+
+		assert.strictEqual(jobs.cancel(), true);
+		assert.deepStrictEqual(await firstRun, { status: 'cancelled' });
+		assert.deepStrictEqual(await secondRun, { status: 'cancelled' });
+		assert.strictEqual(secondStarted, false);
+		assert.strictEqual(jobs.cancel(), false);
+	});
+
+	test('stops between steps once cancelled', async () => {
+		const jobs = runner('queue');
+		const steps: string[] = [];
+
+		const outcome = await jobs.run('Build & Run', async job => {
+			steps.push('build');
+			job.cancel();
+			job.throwIfCancelled();
+			steps.push('install');
+		});
+
+		assert.deepStrictEqual(outcome, { status: 'cancelled' });
+		assert.deepStrictEqual(steps, ['build']);
+	});
+
+	test('passes other errors on', async () => {
+		const jobs = runner('queue');
+
+		await assert.rejects(jobs.run('Build', async () => {
+			throw new Error('No scheme');
+		}), /No scheme/);
+		assert.strictEqual(jobs.isRunning, false);
+	});
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogHistory, LogRetention } from '../logs/history';
+
+suite('Log History', () => {
+	let directory: string;
+	let retention: LogRetention;
+	let history: LogHistory;
+
+	setup(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'simbuild-history-'));
+		retention = { maxSessions: 0, maxAgeDays: 0 };
+		history = new LogHistory(directory, () => retention);
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	async function record(lines: string[], startedAt: string, exitStatus: number | null = 0) {
+		const writer = await history.begin(
+			{ scheme: 'SampleApp', device: 'iPhone 15', bundleId: 'com.example.SampleApp', commit: 'abc1234' },
+			new Date(startedAt)
+		);
+		lines.forEach(line => writer.append(line));
+		await writer.end(exitStatus);
+		return writer.session;
+	}
+
+	test('stores output and metadata of each session, newest first', async () => {
+		await record(['first run'], '2026-03-01T10:00:00.000Z');
+		await record(['second run'], '2026-03-02T10:00:00.000Z', null);
+
+		const sessions = await history.list();
+
+		assert.deepStrictEqual(sessions.map(s => [s.startedAt, s.exitStatus, s.commit]), [
+			['2026-03-02T10:00:00.000Z', null, 'abc1234'],
+			['2026-03-01T10:00:00.000Z', 0, 'abc1234'],
+		]);
+		assert.ok(sessions[0].endedAt);
+		assert.strictEqual(await history.read(sessions[1]), 'first run\n');
+	});
+
+	test('ends sessions without rejecting when saving fails', async () => {
+		const writer = await history.begin(
+			{ scheme: 'SampleApp', device: 'iPhone 15', bundleId: 'com.example.SampleApp' },
+			new Date('2026-03-01T10:00:00.000Z')
+		);
+		const saveFailure = new Error('disk full');
+		history.save = async () => {
+			throw saveFailure;
+		};
+
+		const logged: unknown[] = [];
+		const consoleError = console.error;
+		console.error = (...args: unknown[]) => logged.push(args[1]);
+		try {
+			await writer.end(0);
+		} finally {
+			console.error = consoleError;
+		}
+		assert.deepStrictEqual(logged, [saveFailure]);
+	});
+
+	test('searches all sessions case-insensitively', async () => {
+		await record(['Launching', 'Network ERROR: timeout'], '2026-03-01T10:00:00.000Z');
+		await record(['Launching', 'all good'], '2026-03-02T10:00:00.000Z');
+
+		const matches = await history.search('error');
+
+		assert.deepStrictEqual(matches.map(m => [m.session.startedAt, m.line, m.text]), [
+			['2026-03-01T10:00:00.000Z', 1, 'Network ERROR: timeout'],
+		]);
+	});
+
+	test('prunes sessions beyond the count and age limits', async () => {
+		await record(['a'], '2026-01-01T10:00:00.000Z');
+		await record(['b'], '2026-03-01T10:00:00.000Z');
+		await record(['c'], '2026-03-02T10:00:00.000Z');
+		await record(['d'], '2026-03-03T10:00:00.000Z');
+
+		retention = { maxSessions: 3, maxAgeDays: 30 };
+		await history.prune(new Date('2026-03-10T10:00:00.000Z'));
+
+		assert.deepStrictEqual((await history.list()).map(s => s.startedAt), [
+			'2026-03-03T10:00:00.000Z',
+			'2026-03-02T10:00:00.000Z',
+			'2026-03-01T10:00:00.000Z',
+		]);
+		assert.strictEqual(fs.readdirSync(directory).length, 6);
+	});
+});
@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+import { EventEmitter } from 'events';
+import { ChildProcess } from 'child_process';
+import { LogStreamManager } from '../logs/streams';
+import { Device, getLogStreamSpecs, startLogStream } from '../devices/manager';
+
+class FakeProcess extends EventEmitter {
+	stdout = new EventEmitter();
+	stderr = new EventEmitter();
+	killed = false;
+
+	constructor(readonly command: string, readonly args: string[]) {
+		super();
+	}
+
+	kill() {
+		this.killed = true;
+		this.emit('close', null);
+		return true;
+	}
+
+	write(data: string, stream: 'stdout' | 'stderr' = 'stdout') {
+		this[stream].emit('data', Buffer.from(data));
+	}
+}
+
+function fakeSpawn() {
+	const processes: FakeProcess[] = [];
+	const spawn = (command: string, args: string[]) => {
+		const process = new FakeProcess(command, args);
+		processes.push(process);
+		return process as unknown as ChildProcess;
+	};
+	return { spawn, processes };
+}
+
+function recorder() {
+	const events: string[] = [];
+	return {
+		events,
+		handlers: {
+			onLog: (line: string, stream: string) => events.push(`${stream}: ${line}`),
+			onError: (error: string, stream: string) => events.push(`${stream} error: ${error}`),
+			onClose: (stream: string) => events.push(`${stream} closed`)
+		}
+	};
+}
+
+const simulator: Device = { udid: 'SIM-1', name: 'iPhone 15', type: 'simulator', state: 'Booted', platform: 'iOS Simulator', osVersion: '17.5', isAvailable: true };
+const iphone: Device = { udid: 'DEV-1', name: 'iPhone', type: 'device', state: 'Connected', platform: 'iOS', osVersion: '17.5', isAvailable: true };
+
+suite('Log Streams', () => {
+	test('runs named streams side by side with their own prefix', () => {
+		const { spawn, processes } = fakeSpawn();
+		const streams = new LogStreamManager(spawn);
+		const { events, handlers } = recorder();
+
+		streams.start({ name: 'a', command: 'a', args: [], prefix: '[a] ' }, handlers);
+		streams.start({ name: 'b', command: 'b', args: [], stderr: 'log' }, handlers);
+
+		processes[0].write('one\ntw');
+		processes[1].write('warning\n', 'stderr');
+		processes[0].write('o\n');
+		processes[0].emit('close', 0);
+
+		assert.deepStrictEqual(events, ['a: [a] one', 'b: [stderr] warning', 'a: [a] two', 'a closed']);
+		assert.deepStrictEqual(streams.running, ['b']);
+	});
+
+	test('drops output of a stream that was replaced', () => {
+		const { spawn, processes } = fakeSpawn();
+		const streams = new LogStreamManager(spawn);
+		const { events, handlers } = recorder();
+
+		streams.start({ name: 'a', command: 'a', args: [] }, handlers);
+		streams.start({ name: 'a', command: 'a', args: [] }, handlers);
+
+		assert.ok(processes[0].killed);
+		processes[0].write('stale\n');
+		processes[1].write('fresh\n');
+
+		assert.deepStrictEqual(events, ['a: fresh']);
+	});
+
+	test('reports spawn errors once and forgets the stream', () => {
+		const { spawn, processes } = fakeSpawn();
+		const streams = new LogStreamManager(spawn);
+		const { events, handlers } = recorder();
+
+		streams.start({ name: 'a', command: 'missing', args: [] }, handlers);
+		processes[0].emit('error', new Error('spawn missing ENOENT'));
+		processes[0].emit('close', -2);
+
+		assert.deepStrictEqual(events, ['a error: spawn missing ENOENT', 'a closed']);
+		assert.strictEqual(streams.isRunning(), false);
+	});
+
+	test('"both" runs the console and the system log and ends with the console', () => {
+		const { spawn, processes } = fakeSpawn();
+		const streams = new LogStreamManager(spawn);
+		const lines: string[] = [];
+		const closed: (number | null)[] = [];
+
+		startLogStream(streams, {
+			device: simulator,
+			bundleId: 'com.example.SampleApp',
+			processName: 'SampleApp',
+			mode: 'both',
+			onLog: line => lines.push(line),
+			onError: () => {},
+			onClose: code => closed.push(code)
+		});
+
+		assert.deepStrictEqual(processes.map(p => p.args[0] + ' ' + p.args[1]), ['simctl launch', 'simctl spawn']);
+		assert.ok(processes[1].args.includes('process == "SampleApp" OR subsystem BEGINSWITH "com.example.SampleApp"'));
+
+		processes[0].write('print output\n');
+		processes[1].write('os_log output\n');
+		processes[0].emit('close', 0);
+
+		assert.deepStrictEqual(lines, ['[stdout] print output', '[system] os_log output']);
+		assert.deepStrictEqual(closed, [0]);
+		assert.ok(processes[1].killed);
+		assert.strictEqual(streams.isRunning(), false);
+	});
+
+	test('"both" keeps the console running when the system log ends first', () => {
+		const { spawn, processes } = fakeSpawn();
+		const streams = new LogStreamManager(spawn);
+		const closed: (number | null)[] = [];
+
+		startLogStream(streams, {
+			device: simulator,
+			bundleId: 'com.example.SampleApp',
+			mode: 'both',
+			onLog: () => {},
+			onError: () => {},
+			onClose: code => closed.push(code)
+		});
+
+		processes[1].emit('close', 1);
+		assert.deepStrictEqual(closed, []);
+		assert.deepStrictEqual(streams.running, ['stdout']);
+
+		processes[0].emit('close', 0);
+		assert.deepStrictEqual(closed, [0]);
+	});
+
+	test('"both" includes the system log on physical devices', () => {
+		const specs = getLogStreamSpecs(iphone, 'com.example.SampleApp', 'both');
+
+		assert.deepStrictEqual(specs.map(s => [s.name, s.command]), [['stdout', 'xcrun'], ['system', 'idevicesyslog']]);
+	});
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { NdjsonLogParser, LogRecord, matchesFilter, parseLog } from '../logs/ndjson';
+
+const fixtures = path.resolve(__dirname, '../../src/test/fixtures/logs');
+
+suite('Unified Log', () => {
+	const text = fs.readFileSync(path.join(fixtures, 'log-stream.ndjson'), 'utf8');
+
+	test('parses log events from `log stream --style ndjson`', () => {
+		const records = parseLog(text);
+
+		assert.deepStrictEqual(records.map(r => [r.level, r.subsystem, r.category, r.message]), [
+			['info', 'com.example.SampleApp', 'network', 'Loaded 12 items from cache'],
+			['debug', 'com.example.SampleApp', 'ui', 'View did appear'],
+			['error', 'com.example.SampleApp', 'network', 'Request failed: The Internet connection appears to be offline.'],
+			['default', '', '', 'Legacy NSLog message'],
+			['fault', 'com.example.SampleApp.storage', 'database', 'Database corrupted'],
+		]);
+		assert.deepStrictEqual(records[0], {
+			timestamp: '2026-03-02 10:15:01.123456+0100',
+			level: 'info',
+			subsystem: 'com.example.SampleApp',
+			category: 'network',
+			process: 'SampleApp',
+			pid: 48213,
+			message: 'Loaded 12 items from cache'
+		});
+	});
+
+	test('parses records split across chunks', () => {
+		const records: LogRecord[] = [];
+		const parser = new NdjsonLogParser(record => records.push(record));
+
+		for (let i = 0; i < text.length; i += 37) {
+			parser.feed(text.slice(i, i + 37));
+		}
+		parser.end();
+
+		assert.deepStrictEqual(records, parseLog(text));
+	});
+
+	test('filters by minimum level, subsystem, category and text', () => {
+		const records = parseLog(text);
+		const messages = (filter: Parameters<typeof matchesFilter>[1]) =>
+			records.filter(r => matchesFilter(r, filter)).map(r => r.message);
+
+		assert.deepStrictEqual(messages({ level: 'error' }), [
+			'Request failed: The Internet connection appears to be offline.',
+			'Database corrupted',
+		]);
+		assert.deepStrictEqual(messages({ subsystem: 'storage' }), ['Database corrupted']);
+		assert.deepStrictEqual(messages({ category: 'NETWORK', text: 'cache' }), ['Loaded 12 items from cache']);
+		assert.strictEqual(messages({}).length, records.length);
+	});
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { Device } from '../devices/manager';
+import { setProcessRunner } from '../process/runner';
+import { Job } from '../run/job';
+import { DeviceConsoles, runOnDevices } from '../run/multiDestination';
+import { BuildResult } from '../xcode/build';
+import { FakeProcessRunner } from './fakeProcessRunner';
+
+function device(udid: string, platform: string): Device {
+	return { udid, name: udid, type: 'simulator', state: 'Booted', platform, osVersion: '17.5', isAvailable: true };
+}
+
+suite('Multi-Device Runs', () => {
+	test('reports cancelled builds as cancelled, not failed', async () => {
+		const job = new Job('Run on Multiple Devices');
+		const built: string[] = [];
+		const consoles = { start: () => assert.fail('nothing should launch') } as unknown as DeviceConsoles;
+
+		const results = await runOnDevices([device('iPhone', 'iOS Simulator'), device('Watch', 'watchOS Simulator')], {
+			build: async (target) => {
+				built.push(target.udid);
+				job.cancel();
+				return { success: false, cancelled: true, error: 'Build cancelled' } as BuildResult;
+			},
+			getBundleId: async () => 'com.example.App'
+		}, consoles, job);
+
+		assert.deepStrictEqual(built, ['iPhone']);
+		assert.deepStrictEqual(results.map(r => [r.device.udid, r.success, r.cancelled, r.error]), [
+			['iPhone', false, true, 'Cancelled'],
+			['Watch', false, true, 'Cancelled']
+		]);
+	});
+
+	test('launches the app on its own where there is no console to attach to', async () => {
+		const fake = new FakeProcessRunner()
+			.respond('xcrun', ['simctl', 'install'], {})
+			.respond('xcrun', ['simctl', 'launch'], {});
+		const previous = setProcessRunner(fake);
+		const consoles = { start: () => false } as unknown as DeviceConsoles;
+
+		try {
+			const results = await runOnDevices([device('iPhone', 'iOS Simulator')], {
+				build: async () => ({ success: true, appPath: '/tmp/App.app' } as BuildResult),
+				getBundleId: async () => 'com.example.App'
+			}, consoles);
+
+			assert.deepStrictEqual(results.map(r => [r.device.udid, r.success]), [['iPhone', true]]);
+			assert.deepStrictEqual(fake.calls.map(c => c.args.slice(0, 2)), [['simctl', 'install'], ['simctl', 'launch']]);
+		} finally {
+			setProcessRunner(previous);
+		}
+	});
+});
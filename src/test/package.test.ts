@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parsePackageSchemes, projectArgs, projectDirectory, XcodeProject } from '../xcode/project';
+
+const fixtures = path.resolve(__dirname, '../../src/test/fixtures/package');
+
+suite('Swift Packages', () => {
+	test('derives schemes from the package products', () => {
+		const description = JSON.parse(fs.readFileSync(path.join(fixtures, 'describe.json'), 'utf8'));
+
+		assert.deepStrictEqual(parsePackageSchemes(description), [
+			{ name: 'DesignKit' },
+			{ name: 'DesignKitPreview' },
+			{ name: 'DesignKit-Package' },
+		]);
+		assert.deepStrictEqual(parsePackageSchemes({ name: 'Tiny', products: [{ name: 'Tiny' }] }), [{ name: 'Tiny' }]);
+	});
+
+	test('builds packages from their directory without a project flag', () => {
+		const pkg: XcodeProject = { path: '/Users/dev/Modules/DesignKit/Package.swift', name: 'DesignKit', type: 'package' };
+		const workspace: XcodeProject = { path: '/Users/dev/App/App.xcworkspace', name: 'App', type: 'workspace' };
+
+		assert.deepStrictEqual(projectArgs(pkg), []);
+		assert.strictEqual(projectDirectory(pkg), '/Users/dev/Modules/DesignKit');
+		assert.deepStrictEqual(projectArgs(workspace), ['-workspace', '/Users/dev/App/App.xcworkspace']);
+	});
+});
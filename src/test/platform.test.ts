@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { Device } from '../devices/manager';
+import {
+	DESIGNED_FOR_IPAD,
+	MAC_CATALYST,
+	getDestination,
+	isCompatible,
+	osName,
+	parseRuntime,
+	productFolder
+} from '../devices/platform';
+
+function device(platform: string, variant?: string): Device {
+	return { udid: 'UDID-1', name: 'Device', type: 'simulator', state: 'Shutdown', platform, osVersion: '1.0', isAvailable: true, variant };
+}
+
+suite('Platforms', () => {
+	test('reads platform and version from simulator runtimes', () => {
+		assert.deepStrictEqual(parseRuntime('com.apple.CoreSimulator.SimRuntime.iOS-17-5'), { platform: 'iOS Simulator', osVersion: '17.5' });
+		assert.deepStrictEqual(parseRuntime('com.apple.CoreSimulator.SimRuntime.watchOS-10-2'), { platform: 'watchOS Simulator', osVersion: '10.2' });
+		assert.deepStrictEqual(parseRuntime('com.apple.CoreSimulator.SimRuntime.tvOS-17-0'), { platform: 'tvOS Simulator', osVersion: '17.0' });
+		assert.deepStrictEqual(parseRuntime('com.apple.CoreSimulator.SimRuntime.xrOS-1-2'), { platform: 'visionOS Simulator', osVersion: '1.2' });
+		assert.strictEqual(parseRuntime('com.apple.CoreSimulator.SimRuntime.Unknown'), undefined);
+	});
+
+	test('builds destinations and product folders per platform', () => {
+		assert.strictEqual(getDestination(device('watchOS Simulator')), 'platform=watchOS Simulator,id=UDID-1');
+		assert.strictEqual(getDestination(device('visionOS')), 'platform=visionOS,id=UDID-1');
+		assert.strictEqual(getDestination(device('macOS', MAC_CATALYST)), 'platform=macOS,variant=Mac Catalyst');
+
+		assert.strictEqual(productFolder(device('tvOS Simulator'), 'Debug'), 'Debug-appletvsimulator');
+		assert.strictEqual(productFolder(device('visionOS'), 'Release'), 'Release-xros');
+		assert.strictEqual(productFolder(device('macOS', MAC_CATALYST), 'Debug'), 'Debug-maccatalyst');
+		assert.strictEqual(productFolder(device('macOS', DESIGNED_FOR_IPAD), 'Debug'), 'Debug-iphoneos');
+		assert.strictEqual(osName(device('watchOS Simulator')), 'watchOS');
+	});
+
+	test('names Mac destinations like xcodebuild -showdestinations', () => {
+		// Lines from `xcodebuild -showdestinations` on Apple silicon
+		const lines = [
+			'{ platform:macOS, arch:arm64, variant:Mac Catalyst, id:00006000-001A2B3C4D5E6F70, name:My Mac }',
+			'{ platform:macOS, arch:arm64, variant:Designed for [iPad,iPhone], id:00006000-001A2B3C4D5E6F70, name:My Mac }'
+		];
+		const fields = (destination: string) => destination.split(/,(?![^[]*\])/).map(field => field.replace('=', ':'));
+
+		for (const [variant, line] of [[MAC_CATALYST, lines[0]], [DESIGNED_FOR_IPAD, lines[1]]]) {
+			for (const field of fields(getDestination(device('macOS', variant)))) {
+				assert.ok(line.includes(`${field},`), `${field} is not in ${line}`);
+			}
+		}
+		assert.strictEqual(getDestination(device('macOS', DESIGNED_FOR_IPAD)), 'platform=macOS,arch=arm64,variant=Designed for [iPad,iPhone]');
+	});
+
+	test('only offers devices the app supports', () => {
+		const platforms = ['iphoneos', 'iphonesimulator', 'maccatalyst'];
+
+		assert.strictEqual(isCompatible(device('iOS Simulator'), platforms), true);
+		assert.strictEqual(isCompatible(device('watchOS Simulator'), platforms), false);
+		assert.strictEqual(isCompatible(device('macOS', MAC_CATALYST), platforms), true);
+		assert.strictEqual(isCompatible(device('macOS', DESIGNED_FOR_IPAD), platforms), false);
+		assert.strictEqual(isCompatible(device('watchOS Simulator'), undefined), true);
+	});
+});
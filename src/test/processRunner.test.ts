@@ -0,0 +1,151 @@
+import * as assert from 'assert';
+import { Device, bootDevice, installApp, listAllDevices, terminateApp } from '../devices/manager';
+import {
+	CancellationToken,
+	CommandNotFoundError,
+	nodeProcessRunner,
+	ProcessCancelledError,
+	ProcessError,
+	ProcessRunner,
+	ProcessTimeoutError,
+	setProcessRunner,
+	terminateProcess
+} from '../process/runner';
+import { FakeProcessRunner } from './fakeProcessRunner';
+
+const node = process.execPath;
+
+function simulator(udid: string): Device {
+	return { udid, name: 'iPhone 15', type: 'simulator', state: 'Shutdown', platform: 'iOS Simulator', osVersion: '17.0', isAvailable: true };
+}
+
+function cancellation(): CancellationToken & { cancel(): void } {
+	const listeners: (() => void)[] = [];
+	const token = {
+		isCancellationRequested: false,
+		onCancellationRequested(listener: () => void) {
+			listeners.push(listener);
+			return { dispose: () => listeners.splice(listeners.indexOf(listener), 1) };
+		},
+		cancel() {
+			token.isCancellationRequested = true;
+			listeners.forEach(listener => listener());
+		}
+	};
+	return token;
+}
+
+suite('Process Runner', () => {
+	test('passes arguments through without a shell', async () => {
+		const args = ['My "App".app', '$HOME', '; rm -rf /', '`id`'];
+		const { stdout } = await nodeProcessRunner.run(node, ['-e', 'console.log(JSON.stringify(process.argv.slice(1)))', ...args]);
+
+		assert.deepStrictEqual(JSON.parse(stdout), args);
+	});
+
+	test('rejects with stderr when the command fails', async () => {
+		await assert.rejects(
+			nodeProcessRunner.run(node, ['-e', 'console.error("Unable to boot device"); process.exit(3)']),
+			(error: unknown) => error instanceof ProcessError
+				&& error.exitCode === 3
+				&& error.stderr.trim() === 'Unable to boot device'
+				&& error.message.endsWith('failed with exit code 3: Unable to boot device')
+		);
+	});
+
+	test('reports missing commands', async () => {
+		await assert.rejects(
+			nodeProcessRunner.run('simbuild-no-such-command', []),
+			(error: unknown) => error instanceof CommandNotFoundError && error.message === 'simbuild-no-such-command not found'
+		);
+	});
+
+	test('kills commands that time out', async () => {
+		await assert.rejects(
+			nodeProcessRunner.run(node, ['-e', 'setTimeout(() => {}, 10000)'], { timeout: 200 }),
+			ProcessTimeoutError
+		);
+	});
+
+	test('kills cancelled commands', async () => {
+		const token = cancellation();
+		const running = nodeProcessRunner.run(node, ['-e', 'setTimeout(() => {}, 10000)'], { token });
+		setTimeout(() => token.cancel(), 100);
+
+		await assert.rejects(running, ProcessCancelledError);
+		await assert.rejects(nodeProcessRunner.run(node, ['-e', ''], { token }), ProcessCancelledError);
+	});
+
+	test('kills processes that ignore SIGTERM', async () => {
+		const child = nodeProcessRunner.spawn(node, ['-e', 'process.on("SIGTERM", () => {}); console.log("ready"); setInterval(() => {}, 1000)']);
+		await new Promise(resolve => child.stdout!.once('data', resolve));
+
+		const exited = new Promise(resolve => child.once('exit', (_code, signal) => resolve(signal)));
+		terminateProcess(child, 200);
+
+		assert.strictEqual(await exited, 'SIGKILL');
+	});
+
+	suite('with a fake runner', () => {
+		let fake: FakeProcessRunner;
+		let previous: ProcessRunner;
+
+		setup(() => {
+			fake = new FakeProcessRunner();
+			previous = setProcessRunner(fake);
+		});
+
+		teardown(() => {
+			setProcessRunner(previous);
+		});
+
+		test('installs apps whose path has quotes and spaces', async () => {
+			fake.respond('xcrun', ['simctl', 'install'], {});
+			await installApp(simulator('UDID-1'), '/tmp/it\'s "Beta"/App.app');
+
+			assert.deepStrictEqual(fake.calls.map(c => [c.command, ...c.args]), [
+				['xcrun', 'simctl', 'install', 'UDID-1', '/tmp/it\'s "Beta"/App.app']
+			]);
+		});
+
+		test('passes bundle IDs to AppleScript as arguments', async () => {
+			fake.respond('osascript', [], {});
+			const mac: Device = { ...simulator('mac-catalyst'), type: 'device', platform: 'macOS', provider: 'mac' };
+			await terminateApp(mac, 'com.example.App" to quit\ndo shell script "id');
+
+			assert.deepStrictEqual(fake.calls.map(c => [c.command, ...c.args]), [
+				['osascript', '-e', 'on run argv', '-e', 'quit app id (item 1 of argv)', '-e', 'end run', 'com.example.App" to quit\ndo shell script "id']
+			]);
+		});
+
+		test('ignores simulators that are already booted', async () => {
+			fake.respond('xcrun', ['simctl', 'boot'], {
+				exitCode: 149,
+				stderr: 'An error was encountered processing the command (domain=com.apple.CoreSimulator.SimError, code=405):\nUnable to boot device in current state: Booted\n'
+			});
+			fake.respond('open', ['-a', 'Simulator'], {});
+			await bootDevice(simulator('UDID-1'));
+
+			fake.respond('xcrun', ['simctl', 'boot'], { exitCode: 148, stderr: 'Invalid device: UDID-2\n' });
+			await assert.rejects(bootDevice(simulator('UDID-2')), /Invalid device: UDID-2/);
+		});
+
+		test('lists simulators from simctl output', async () => {
+			fake.respond('xcrun', ['simctl', 'list', 'devices'], {
+				stdout: JSON.stringify({
+					devices: {
+						'com.apple.CoreSimulator.SimRuntime.iOS-17-2': [
+							{ udid: 'UDID-1', name: 'iPhone 15', state: 'Shutdown', isAvailable: true },
+							{ udid: 'UDID-2', name: 'iPhone 8', state: 'Shutdown', isAvailable: false }
+						]
+					}
+				})
+			});
+
+			// devicectl and xctrace aren't answered, as on a machine without Xcode
+			const devices = await listAllDevices();
+
+			assert.deepStrictEqual(devices.map(d => [d.udid, d.name, d.osVersion]), [['UDID-1', 'iPhone 15', '17.2']]);
+		});
+	});
+});
@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parsePlist } from '../xcode/plist';
+import {
+	expandBuildSetting,
+	parseProjectFile,
+	parseScheme,
+	parseWorkspaceData,
+	readProjectInfo,
+	schemeBundleIdentifier,
+	schemePlatforms,
+	targetPlatforms
+} from '../xcode/projectFile';
+
+const fixtures = path.resolve(__dirname, '../../src/test/fixtures/projects');
+
+suite('Project Files', () => {
+	test('parses old-style property lists', () => {
+		assert.deepStrictEqual(parsePlist([
+			'// !$*UTF8*$!',
+			'{',
+			'\tname = "Sample \\"Beta\\" App"; /* comment */',
+			'\ttype = sourcecode.swift;',
+			'\tlist = (a, "b c", );',
+			'\tempty = { };',
+			'\tdata = <0fbd 7772>;',
+			'}'
+		].join('\n')), {
+			name: 'Sample "Beta" App',
+			type: 'sourcecode.swift',
+			list: ['a', 'b c'],
+			empty: {},
+			data: '0fbd7772'
+		});
+
+		assert.throws(() => parsePlist('{\n\tname = App\n}'), /line 3: expected ";"/);
+		assert.throws(() => parsePlist('{ name = "App'), /unterminated string/);
+	});
+
+	test('reads configurations, targets and bundle IDs from project.pbxproj', () => {
+		const project = parseProjectFile(fs.readFileSync(path.join(fixtures, 'SampleApp.xcodeproj', 'project.pbxproj'), 'utf8'));
+
+		assert.deepStrictEqual(project.configurations, ['Debug', 'Release', 'Staging']);
+		assert.strictEqual(project.defaultConfiguration, 'Release');
+		assert.deepStrictEqual(project.targets, [
+			{
+				name: 'SampleApp',
+				productType: 'com.apple.product-type.application',
+				productName: 'Sample App',
+				// Staging takes its bundle ID from an xcconfig
+				bundleIdentifiers: { Debug: 'com.example.SampleApp.debug', Release: 'com.example.SampleApp' },
+				platforms: ['iphoneos', 'iphonesimulator', 'maccatalyst', 'macdesignedforipad']
+			},
+			{
+				name: 'SampleAppTests',
+				productType: 'com.apple.product-type.bundle.unit-test',
+				productName: 'SampleAppTests',
+				bundleIdentifiers: { Debug: 'com.example.SampleAppTests', Release: 'com.example.SampleAppTests' },
+				platforms: ['iphoneos', 'iphonesimulator', 'macdesignedforipad']
+			},
+			{
+				name: 'Lint',
+				productType: undefined,
+				productName: 'Lint',
+				bundleIdentifiers: {},
+				platforms: ['iphoneos', 'iphonesimulator', 'macdesignedforipad']
+			}
+		]);
+	});
+
+	test('expands build setting references', () => {
+		const settings = { PRODUCT_NAME: 'My App', TARGET_NAME: 'MyApp', NAME: '$(PRODUCT_NAME:lower)' };
+
+		assert.strictEqual(expandBuildSetting('com.example.$(PRODUCT_NAME:rfc1034identifier)', settings), 'com.example.My-App');
+		assert.strictEqual(expandBuildSetting('${TARGET_NAME}.$(NAME)', settings), 'MyApp.my app');
+		assert.strictEqual(expandBuildSetting('$(APP_ID)', settings), undefined);
+	});
+
+	test('reads the platforms a target supports', () => {
+		assert.deepStrictEqual(targetPlatforms({ SDKROOT: 'watchos' }), ['watchos', 'watchsimulator']);
+		assert.deepStrictEqual(
+			targetPlatforms({ SDKROOT: 'auto', SUPPORTED_PLATFORMS: 'iphoneos iphonesimulator xros xrsimulator', SUPPORTS_MAC_DESIGNED_FOR_IPHONE_IPAD: 'NO' }),
+			['iphoneos', 'iphonesimulator', 'xros', 'xrsimulator']
+		);
+		assert.strictEqual(targetPlatforms({ SUPPORTED_PLATFORMS: '$(AVAILABLE_PLATFORMS)' }), undefined);
+		assert.strictEqual(targetPlatforms({}), undefined);
+	});
+
+	test('parses schemes', () => {
+		const xml = fs.readFileSync(path.join(fixtures, 'SampleApp.xcodeproj', 'xcshareddata', 'xcschemes', 'SampleApp.xcscheme'), 'utf8');
+
+		assert.deepStrictEqual(parseScheme(xml, 'SampleApp', true), {
+			name: 'SampleApp',
+			shared: true,
+			launchTarget: 'SampleApp',
+			launchConfiguration: 'Debug',
+			buildTargets: ['SampleApp'],
+			testTargets: ['SampleAppTests']
+		});
+	});
+
+	test('resolves the projects of a workspace', () => {
+		const workspace = path.join(fixtures, 'SampleApp.xcworkspace');
+		const xml = fs.readFileSync(path.join(workspace, 'contents.xcworkspacedata'), 'utf8');
+
+		assert.deepStrictEqual(parseWorkspaceData(xml, workspace), [
+			path.join(fixtures, 'SampleApp.xcodeproj'),
+			path.join(fixtures, 'Modules', 'Networking', 'Networking.xcodeproj'),
+			path.join(fixtures, 'Pods', 'Pods.xcodeproj')
+		]);
+		assert.deepStrictEqual(
+			parseWorkspaceData('<Workspace><FileRef location = "self:"></FileRef></Workspace>', '/repo/App.xcodeproj/project.xcworkspace'),
+			['/repo/App.xcodeproj']
+		);
+	});
+
+	test('reads a workspace without xcodebuild', async () => {
+		const workspace = { name: 'SampleApp', path: path.join(fixtures, 'SampleApp.xcworkspace'), type: 'workspace' as const };
+		const info = await readProjectInfo(workspace, 'dev');
+
+		assert.ok(info);
+		assert.deepStrictEqual(info.configurations, ['Debug', 'Release', 'Staging']);
+		assert.deepStrictEqual(info.targets.map(t => t.name), ['SampleApp', 'SampleAppTests', 'Lint', 'Networking']);
+		// Networking has no scheme files, so it gets the scheme Xcode would create
+		assert.deepStrictEqual(info.schemes.map(s => [s.name, s.shared]), [
+			['Networking', false],
+			['SampleApp', true],
+			['SampleApp Staging', false]
+		]);
+
+		assert.strictEqual(schemeBundleIdentifier(info, 'SampleApp', 'Debug'), 'com.example.SampleApp.debug');
+		assert.strictEqual(schemeBundleIdentifier(info, 'SampleApp Staging', 'Staging'), undefined);
+		assert.strictEqual(schemeBundleIdentifier(info, 'Networking', 'Debug'), undefined);
+		assert.deepStrictEqual(schemePlatforms(info, 'SampleApp'), ['iphoneos', 'iphonesimulator', 'maccatalyst', 'macdesignedforipad']);
+
+		const otherUser = await readProjectInfo(workspace, 'someone-else');
+		assert.deepStrictEqual(otherUser?.schemes.map(s => s.name), ['Networking', 'SampleApp']);
+	});
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import type * as vscode from 'vscode';
+import { ProjectSelection } from '../ui/projectSelection';
+
+// In-memory workspace state that drops undefined values like VS Code does
+function memento(initial: { [key: string]: any } = {}): vscode.Memento & { values: { [key: string]: any } } {
+	const values: { [key: string]: any } = { ...initial };
+	return {
+		values,
+		keys: () => Object.keys(values),
+		get: (key: string, defaultValue?: any) => key in values ? JSON.parse(JSON.stringify(values[key])) : defaultValue,
+		update: async (key: string, value: any) => {
+			if (value === undefined) {
+				delete values[key];
+			} else {
+				values[key] = value;
+			}
+		}
+	} as any;
+}
+
+suite('Project Selection', () => {
+	test('remembers the active project per workspace folder', async () => {
+		const selection = new ProjectSelection(memento());
+		await selection.setActiveProject('file:///work/ios', '/work/ios/App.xcworkspace');
+		await selection.setActiveProject('file:///work/tools', '/work/tools/Package.swift');
+
+		assert.deepStrictEqual(
+			selection.getActiveProjects(['file:///work/tools', 'file:///work/web', 'file:///work/ios']),
+			['/work/tools/Package.swift', '/work/ios/App.xcworkspace']
+		);
+	});
+
+	test('keeps scheme and devices per project', async () => {
+		const selection = new ProjectSelection(memento());
+		await selection.update('/work/App.xcworkspace', { scheme: 'App', device: 'UDID-1' });
+		await selection.update('/work/Widget.xcodeproj', { scheme: 'Widget' });
+		await selection.update('/work/App.xcworkspace', { device: undefined, configuration: 'Staging' });
+
+		assert.deepStrictEqual(selection.get('/work/App.xcworkspace'), { scheme: 'App', configuration: 'Staging' });
+		assert.deepStrictEqual(selection.get('/work/Widget.xcodeproj'), { scheme: 'Widget' });
+		assert.deepStrictEqual(selection.get('/work/Other.xcodeproj'), {});
+	});
+
+	test('moves the old workspace-wide selections to the first project', async () => {
+		const state = memento({
+			'simbuild.selectedScheme': 'App',
+			'simbuild.selectedConfiguration': 'Release',
+			'simbuild.selectedDevice': { udid: 'UDID-1', name: 'iPhone 15', type: 'simulator' },
+			'simbuild.selectedDevices': ['UDID-1', 'UDID-2']
+		});
+		const selection = new ProjectSelection(state);
+
+		await selection.migrate('/work/App.xcworkspace');
+		await selection.migrate('/work/Widget.xcodeproj');
+
+		assert.deepStrictEqual(selection.get('/work/App.xcworkspace'), {
+			scheme: 'App',
+			configuration: 'Release',
+			device: 'UDID-1',
+			deviceName: 'iPhone 15',
+			deviceType: 'simulator',
+			devices: ['UDID-1', 'UDID-2']
+		});
+		assert.deepStrictEqual(selection.get('/work/Widget.xcodeproj'), {});
+		assert.deepStrictEqual(Object.keys(state.values), ['simbuild.projectStates']);
+	});
+});
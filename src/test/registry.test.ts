@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { Device } from '../devices/manager';
+import { DeviceRegistry, diffDevices } from '../devices/registry';
+
+function simulator(udid: string, state = 'Shutdown', name = 'iPhone 15'): Device {
+	return { udid, name, type: 'simulator', state, platform: 'iOS Simulator', osVersion: '17.5', isAvailable: true };
+}
+
+suite('Device Registry', () => {
+	test('reports added, removed and changed devices', () => {
+		const previous = [simulator('A'), simulator('B'), simulator('C')];
+		const next = [simulator('A'), simulator('B', 'Booted'), simulator('D')];
+
+		const changes = diffDevices(previous, next);
+
+		assert.deepStrictEqual(changes.added.map(d => d.udid), ['D']);
+		assert.deepStrictEqual(changes.removed.map(d => d.udid), ['C']);
+		assert.deepStrictEqual(changes.changed.map(d => d.udid), ['B']);
+	});
+
+	test('treats renamed devices as changed', () => {
+		const changes = diffDevices([simulator('A')], [simulator('A', 'Shutdown', 'Test Phone')]);
+		assert.deepStrictEqual(changes.changed.map(d => d.name), ['Test Phone']);
+	});
+
+	test('only trusts listings where every provider answered', async () => {
+		const listings = [
+			{ devices: [simulator('A')], failed: [], skipped: [] },
+			{ devices: [], failed: [], skipped: [] },
+			{ devices: [simulator('B')], failed: ['simulator'], skipped: [] }
+		];
+		const registry = new DeviceRegistry(async () => listings.shift()!);
+
+		await registry.refresh();
+		assert.strictEqual(registry.isComplete, true);
+		await registry.refresh();
+		assert.strictEqual(registry.isComplete, false);
+		await registry.refresh();
+		assert.strictEqual(registry.isComplete, false);
+		registry.dispose();
+	});
+
+	test('keeps devices of fallback providers that background polls skip', async () => {
+		const phone = { ...simulator('P'), type: 'device' as const, provider: 'legacy' };
+		const asked: (boolean | undefined)[] = [];
+		const registry = new DeviceRegistry(async options => {
+			asked.push(options.fallbacks);
+			return options.fallbacks === false
+				? { devices: [simulator('A')], failed: [], skipped: ['legacy'] }
+				: { devices: [simulator('A'), phone], failed: [], skipped: [] };
+		});
+
+		await registry.refresh();
+		const polled = await registry.refresh({ fallbacks: false });
+
+		assert.deepStrictEqual(asked, [undefined, false]);
+		assert.deepStrictEqual(polled.map(d => d.udid), ['A', 'P']);
+		registry.dispose();
+	});
+});
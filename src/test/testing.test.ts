@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseTestLog, parseTestResults } from '../testing/results';
+import { parseSchemeTestTargets, parseTestSource } from '../testing/sources';
+
+const fixtures = path.resolve(__dirname, '../../src/test/fixtures/testing');
+
+suite('XCTest Results', () => {
+	test('parses pass, fail and skip results from the xcodebuild test log', () => {
+		const results = parseTestLog(fs.readFileSync(path.join(fixtures, 'xcodebuild-test.log'), 'utf8'));
+
+		assert.deepStrictEqual(results, [
+			{ module: 'SampleAppTests', className: 'LoginTests', method: 'testValidPassword', status: 'passed', duration: 4, failures: [] },
+			{
+				module: 'SampleAppTests', className: 'LoginTests', method: 'testInvalidPassword', status: 'failed', duration: 127,
+				failures: [
+					{ message: 'XCTAssertEqual failed: ("locked") is not equal to ("invalid")', file: '/Users/dev/SampleApp/SampleAppTests/LoginTests.swift', line: 27 },
+					{ message: 'XCTAssertFalse failed', file: '/Users/dev/SampleApp/SampleAppTests/LoginTests.swift', line: 28 },
+				]
+			},
+			{ module: 'SampleAppTests', className: 'LoginTests', method: 'testBiometrics', status: 'skipped', duration: 1, failures: [] },
+		]);
+	});
+
+	test('parses the test tree of an .xcresult bundle', () => {
+		const data = JSON.parse(fs.readFileSync(path.join(fixtures, 'test-results.json'), 'utf8'));
+
+		assert.deepStrictEqual(parseTestResults(data), [
+			{ module: 'SampleAppTests', className: 'CartTests', method: 'testAddItem', status: 'passed', duration: 21, failures: [] },
+			{
+				module: 'SampleAppTests', className: 'CartTests', method: 'testCheckout', status: 'failed', duration: 1500,
+				failures: [{ message: 'XCTAssertNotNil failed', file: 'CartTests.swift', line: 58 }]
+			},
+		]);
+	});
+});
+
+suite('XCTest Sources', () => {
+	test('finds test classes and methods in Swift sources', () => {
+		const source = [
+			'import XCTest',
+			'@testable import SampleApp',
+			'',
+			'final class LoginTests: XCTestCase {',
+			'    struct Fixture {',
+			'        let name = "{"',
+			'    }',
+			'',
+			'    func testValidPassword() throws {',
+			'    }',
+			'',
+			'    func helper() {}',
+			'',
+			'    @MainActor func testInvalidPassword() async {',
+			'    }',
+			'}',
+			'',
+			'class NotATest {',
+			'    func testIgnored() {}',
+			'}',
+		].join('\n');
+
+		assert.deepStrictEqual(parseTestSource(source, 'swift'), [{
+			name: 'LoginTests',
+			line: 3,
+			methods: [
+				{ name: 'testValidPassword', line: 8 },
+				{ name: 'testInvalidPassword', line: 13 },
+			]
+		}]);
+	});
+
+	test('finds test classes and methods in Objective-C sources', () => {
+		const source = [
+			'@interface CartTests : XCTestCase',
+			'@end',
+			'',
+			'@implementation CartTests',
+			'- (void)testAddItem {',
+			'}',
+			'- (void)setUp {',
+			'}',
+			'@end',
+		].join('\n');
+
+		assert.deepStrictEqual(parseTestSource(source, 'objc'), [{
+			name: 'CartTests',
+			line: 3,
+			methods: [{ name: 'testAddItem', line: 4 }]
+		}]);
+	});
+
+	test('reads enabled test targets from a scheme', () => {
+		const scheme = `
+			<TestAction buildConfiguration = "Debug">
+				<Testables>
+					<TestableReference skipped = "NO">
+						<BuildableReference BuildableIdentifier = "primary" BlueprintName = "SampleAppTests" ReferencedContainer = "container:SampleApp.xcodeproj">
+						</BuildableReference>
+					</TestableReference>
+					<TestableReference skipped = "YES">
+						<BuildableReference BuildableIdentifier = "primary" BlueprintName = "SampleAppUITests" ReferencedContainer = "container:SampleApp.xcodeproj">
+						</BuildableReference>
+					</TestableReference>
+				</Testables>
+			</TestAction>`;
+
+		assert.deepStrictEqual(parseSchemeTestTargets(scheme), ['SampleAppTests']);
+	});
+});
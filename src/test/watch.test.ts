@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { ChangeDebouncer, DEFAULT_WATCH_EXCLUDE, DEFAULT_WATCH_INCLUDE, globToRegExp, isWatchedFile } from '../run/watch';
+
+const defaults = { include: DEFAULT_WATCH_INCLUDE, exclude: DEFAULT_WATCH_EXCLUDE };
+
+suite('Watch Mode', () => {
+	test('matches globs against relative paths', () => {
+		assert.ok(globToRegExp('**/*.swift').test('ContentView.swift'));
+		assert.ok(globToRegExp('**/*.swift').test('App/Views/ContentView.swift'));
+		assert.ok(!globToRegExp('*.swift').test('App/ContentView.swift'));
+		assert.ok(globToRegExp('**/*.{h,m,mm}').test('Legacy/Bridge.mm'));
+		assert.ok(!globToRegExp('**/*.{h,m,mm}').test('Legacy/Bridge.md'));
+		assert.ok(globToRegExp('App/?.swift').test('App/A.swift'));
+	});
+
+	test('watches sources, storyboards and assets but not build output', () => {
+		assert.strictEqual(isWatchedFile('App/ContentView.swift', defaults), true);
+		assert.strictEqual(isWatchedFile('App/Base.lproj/Main.storyboard', defaults), true);
+		assert.strictEqual(isWatchedFile('App/Assets.xcassets/AppIcon.appiconset/Contents.json', defaults), true);
+		assert.strictEqual(isWatchedFile('README.md', defaults), false);
+		assert.strictEqual(isWatchedFile('build/App.build/DerivedSources/Generated.swift', defaults), false);
+		assert.strictEqual(isWatchedFile('Pods/Alamofire/Source/Session.swift', defaults), false);
+		assert.strictEqual(isWatchedFile('App/View.swift', { include: defaults.include, exclude: ['App/**'] }), false);
+	});
+
+	test('rebuilds once changes settle', async () => {
+		const batches: string[][] = [];
+		const debouncer = new ChangeDebouncer(50, files => batches.push(files));
+
+		debouncer.add('A.swift');
+		debouncer.add('B.swift');
+		debouncer.add('A.swift');
+		await new Promise(resolve => setTimeout(resolve, 20));
+		debouncer.add('C.swift');
+		assert.deepStrictEqual(batches, []);
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+		assert.deepStrictEqual(batches, [['A.swift', 'B.swift', 'C.swift']]);
+
+		debouncer.add('D.swift');
+		debouncer.dispose();
+		await new Promise(resolve => setTimeout(resolve, 100));
+		assert.strictEqual(batches.length, 1);
+	});
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseBuildLogSections, parseBuildResults } from '../xcode/xcresult';
+
+const fixtures = path.resolve(__dirname, '../../src/test/fixtures/xcresult');
+
+function loadFixture(name: string) {
+	return JSON.parse(fs.readFileSync(path.join(fixtures, name), 'utf8'));
+}
+
+suite('Result Bundle Parser', () => {
+	test('reads issues, counts and destination from build-results', () => {
+		const results = parseBuildResults(loadFixture('build-results.json'));
+
+		assert.strictEqual(results.status, 'failed');
+		assert.strictEqual(results.errorCount, 1);
+		assert.strictEqual(results.warningCount, 2);
+		assert.strictEqual(results.duration, 12250);
+		assert.deepStrictEqual(results.destination, {
+			name: 'iPhone 15 Pro',
+			platform: 'iOS Simulator',
+			osVersion: '17.5',
+			architecture: 'arm64',
+			udid: '5A1C7D8E-2B3F-4C6D-9E0A-1B2C3D4E5F60'
+		});
+
+		assert.deepStrictEqual(results.issues[0], {
+			severity: 'error',
+			message: 'Cannot find \'fetchItems\' in scope',
+			file: '/Users/dev/SampleApp/SampleApp/Views/ListView.swift',
+			line: 42,
+			column: 9,
+			target: 'SampleApp'
+		});
+		assert.strictEqual(results.issues[1].file, '/Users/dev/SampleApp/SampleApp/Models/Item Store.swift');
+		assert.strictEqual(results.issues[2].file, undefined);
+	});
+
+	test('reads per-target timings and product paths from the build log', () => {
+		const sections = parseBuildLogSections(loadFixture('build-log.json'));
+
+		assert.deepStrictEqual(sections.targets, [
+			{ name: 'Networking', duration: 2410 },
+			{ name: 'SampleApp', duration: 9100 }
+		]);
+		assert.deepStrictEqual(sections.steps.map(s => [s.target, s.title, s.file, s.duration]), [
+			['Networking', 'Compile Client.swift', '/Users/dev/SampleApp/Networking/Client.swift', 1200],
+			['Networking', 'Touch /Users/dev/Library/Developer/Xcode/DerivedData/SampleApp-abc/Build/Products/Debug-iphonesimulator/Networking.framework', undefined, 50],
+			['SampleApp', 'Sign SampleApp.app', undefined, 310],
+			['SampleApp', 'Register SampleApp.app', undefined, 20]
+		]);
+		assert.deepStrictEqual(sections.productPaths, [
+			'/Users/dev/Library/Developer/Xcode/DerivedData/SampleApp-abc/Build/Products/Debug-iphonesimulator/Networking.framework',
+			'/Users/dev/Library/Developer/Xcode/DerivedData/SampleApp-abc/Build/Products/Debug-iphonesimulator/SampleApp.app'
+		]);
+	});
+});
@@ -0,0 +1,291 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { XcodeProject, projectArgs, projectDirectory } from '../xcode/project';
+import { prepareResultBundlePath, xcresulttool } from '../xcode/xcresult';
+import { Device } from '../devices/manager';
+import { getDestination } from '../devices/platform';
+import { TestCaseRef, TestCaseResult, TestLogParser, parseTestResults } from './results';
+import { parseSchemeTestTargets, parseTestSource } from './sources';
+import { spawnProcess } from '../process/runner';
+
+const EXCLUDE_GLOB = '**/{Pods,DerivedData,.build,build,node_modules}/**';
+
+/**
+ * What the test runner needs from the rest of the extension.
+ */
+export interface TestHost {
+    getProject(): XcodeProject | undefined;
+    getScheme(): string | undefined;
+    getDevice(): Device | undefined;
+    getDerivedDataPath(): string | undefined;
+}
+
+// Swift module names replace characters that aren't valid identifiers
+function moduleName(target: string): string {
+    return target.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+/**
+ * Exposes the XCTest targets of the selected scheme in the Test Explorer
+ * and runs them with `xcodebuild test`.
+ */
+export class XCTestController implements vscode.Disposable {
+    private readonly controller: vscode.TestController;
+
+    constructor(private readonly host: TestHost) {
+        this.controller = vscode.tests.createTestController('simbuild', 'SimBuild XCTest');
+        this.controller.refreshHandler = () => this.discover();
+
+        this.controller.createRunProfile(
+            'Run',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runTests(request, token, false),
+            true
+        );
+        this.controller.createRunProfile(
+            'Run Without Building',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runTests(request, token, true)
+        );
+    }
+
+    async discover() {
+        const project = this.host.getProject();
+        const scheme = this.host.getScheme();
+
+        this.controller.items.replace([]);
+        if (!project || !scheme) {
+            return;
+        }
+
+        const projectDir = projectDirectory(project);
+        const schemeFiles = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(projectDir, `**/xcschemes/${scheme}.xcscheme`),
+            EXCLUDE_GLOB,
+            1
+        );
+        if (schemeFiles.length === 0) {
+            return;
+        }
+
+        const schemeXml = (await vscode.workspace.fs.readFile(schemeFiles[0])).toString();
+
+        for (const target of parseSchemeTestTargets(schemeXml)) {
+            const targetItem = this.controller.createTestItem(target, target);
+            this.controller.items.add(targetItem);
+
+            // Test sources usually live in a folder named after the target
+            const files = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(projectDir, `**/${target}/**/*.{swift,m}`),
+                EXCLUDE_GLOB
+            );
+
+            for (const file of files) {
+                const text = (await vscode.workspace.fs.readFile(file)).toString();
+                const language = file.fsPath.endsWith('.swift') ? 'swift' : 'objc';
+
+                for (const testClass of parseTestSource(text, language)) {
+                    const classItem = this.controller.createTestItem(`${target}/${testClass.name}`, testClass.name, file);
+                    classItem.range = new vscode.Range(testClass.line, 0, testClass.line, 0);
+                    targetItem.children.add(classItem);
+
+                    for (const method of testClass.methods) {
+                        const methodItem = this.controller.createTestItem(`${classItem.id}/${method.name}`, method.name, file);
+                        methodItem.range = new vscode.Range(method.line, 0, method.line, 0);
+                        classItem.children.add(methodItem);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Finds the item of a reported test case, adding it when discovery missed it.
+     */
+    private getTestItem(test: TestCaseRef): vscode.TestItem {
+        let targetItem: vscode.TestItem | undefined;
+        this.controller.items.forEach(item => {
+            if (!targetItem && (test.module ? moduleName(item.id) === test.module : item.children.get(`${item.id}/${test.className}`))) {
+                targetItem = item;
+            }
+        });
+
+        if (!targetItem) {
+            const target = test.module ?? 'Tests';
+            targetItem = this.controller.createTestItem(target, target);
+            this.controller.items.add(targetItem);
+        }
+
+        const classId = `${targetItem.id}/${test.className}`;
+        let classItem = targetItem.children.get(classId);
+        if (!classItem) {
+            classItem = this.controller.createTestItem(classId, test.className);
+            targetItem.children.add(classItem);
+        }
+
+        const methodId = `${classId}/${test.method}`;
+        let methodItem = classItem.children.get(methodId);
+        if (!methodItem) {
+            methodItem = this.controller.createTestItem(methodId, test.method, classItem.uri);
+            classItem.children.add(methodItem);
+        }
+
+        return methodItem;
+    }
+
+    private reportResult(run: vscode.TestRun, item: vscode.TestItem, result: TestCaseResult) {
+        switch (result.status) {
+            case 'passed':
+                run.passed(item, result.duration);
+                break;
+            case 'skipped':
+                run.skipped(item);
+                break;
+            case 'failed': {
+                const messages = result.failures.map(failure => {
+                    const message = new vscode.TestMessage(failure.message);
+                    // xcresult failures only carry the file name
+                    const uri = failure.file && path.isAbsolute(failure.file)
+                        ? vscode.Uri.file(failure.file)
+                        : item.uri && (!failure.file || path.basename(item.uri.fsPath) === failure.file)
+                            ? item.uri
+                            : undefined;
+                    if (uri && failure.line !== undefined) {
+                        message.location = new vscode.Location(uri, new vscode.Position(failure.line - 1, 0));
+                    }
+                    return message;
+                });
+                run.failed(item, messages.length > 0 ? messages : new vscode.TestMessage('Test failed'), result.duration);
+                break;
+            }
+        }
+    }
+
+    private async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken, withoutBuilding: boolean) {
+        const project = this.host.getProject();
+        const scheme = this.host.getScheme();
+        const device = this.host.getDevice();
+
+        if (!project || !scheme || !device) {
+            vscode.window.showWarningMessage('SimBuild: Select a project, scheme and device before running tests.');
+            return;
+        }
+
+        const run = this.controller.createTestRun(request);
+        const reported = new Set<string>();
+        const enqueued: vscode.TestItem[] = [];
+
+        const enqueue = (item: vscode.TestItem) => {
+            if (request.exclude?.includes(item)) {
+                return;
+            }
+            if (item.children.size === 0) {
+                run.enqueued(item);
+                enqueued.push(item);
+            }
+            item.children.forEach(enqueue);
+        };
+
+        const args = [
+            ...projectArgs(project),
+            '-scheme', scheme,
+            '-destination', getDestination(device)
+        ];
+
+        const derivedDataPath = this.host.getDerivedDataPath();
+        if (derivedDataPath) {
+            args.push('-derivedDataPath', derivedDataPath);
+        }
+
+        const resultBundlePath = prepareResultBundlePath(project.name, `${scheme}-Tests`);
+        args.push('-resultBundlePath', resultBundlePath);
+
+        // Test identifiers match -only-testing's Target/Class/method format
+        if (request.include) {
+            request.include.forEach(enqueue);
+            for (const item of request.include) {
+                args.push(`-only-testing:${item.id}`);
+            }
+        } else {
+            this.controller.items.forEach(enqueue);
+        }
+        for (const item of request.exclude ?? []) {
+            args.push(`-skip-testing:${item.id}`);
+        }
+
+        args.push(withoutBuilding ? 'test-without-building' : 'test');
+
+        run.appendOutput(`$ xcodebuild ${args.join(' ')}\r\n\r\n`);
+
+        const report = (result: TestCaseResult) => {
+            const item = this.getTestItem(result);
+            reported.add(item.id);
+            this.reportResult(run, item, result);
+        };
+
+        const parser = new TestLogParser(event => {
+            if (event.kind === 'started') {
+                run.started(this.getTestItem(event.test));
+            } else {
+                report(event.result);
+            }
+        });
+
+        const exitCode = await new Promise<number | null>((resolve) => {
+            const process = spawnProcess('xcodebuild', args, {
+                cwd: projectDirectory(project),
+                env: { ...global.process.env, LANG: 'en_US.UTF-8' },
+                token
+            });
+
+            const onData = (data: Buffer) => {
+                const text = data.toString();
+                run.appendOutput(text.replace(/\r?\n/g, '\r\n'));
+                parser.feed(text);
+            };
+            process.stdout?.on('data', onData);
+            process.stderr?.on('data', onData);
+
+            process.on('close', (code) => {
+                parser.end();
+                resolve(code);
+            });
+            process.on('error', (err) => {
+                run.appendOutput(`Failed to start xcodebuild: ${err.message}\r\n`);
+                resolve(null);
+            });
+        });
+
+        // Tests that crashed or timed out never print a result line
+        if (!token.isCancellationRequested && fs.existsSync(resultBundlePath)) {
+            try {
+                const results = parseTestResults(
+                    await xcresulttool(['get', 'test-results', 'tests', '--path', resultBundlePath])
+                );
+                for (const result of results) {
+                    if (!reported.has(this.getTestItem(result).id)) {
+                        report(result);
+                    }
+                }
+            } catch (error) {
+                console.error('Failed to read test results:', error);
+            }
+        }
+
+        if (exitCode !== 0 && !token.isCancellationRequested) {
+            const message = new vscode.TestMessage(`xcodebuild exited with code ${exitCode}`);
+            for (const item of enqueued) {
+                if (!reported.has(item.id)) {
+                    run.errored(item, message);
+                }
+            }
+        }
+
+        run.end();
+    }
+
+    dispose() {
+        this.controller.dispose();
+    }
+}
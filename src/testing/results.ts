@@ -0,0 +1,192 @@
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestFailure {
+    message: string;
+    file?: string;
+    line?: number;
+}
+
+export interface TestCaseRef {
+    module?: string;
+    className: string;
+    method: string;
+}
+
+export interface TestCaseResult extends TestCaseRef {
+    status: TestStatus;
+    duration?: number; // milliseconds
+    failures: TestFailure[];
+}
+
+export type TestLogEvent =
+    | { kind: 'started'; test: TestCaseRef }
+    | { kind: 'finished'; result: TestCaseResult };
+
+// "Test Case '-[MyAppTests.LoginTests testInvalidPassword]' started."
+const CASE_STARTED = /^Test Case '-\[(\S+) (\S+)\]' started\.$/;
+// "Test Case '-[MyAppTests.LoginTests testInvalidPassword]' failed (0.012 seconds)."
+const CASE_FINISHED = /^Test Case '-\[(\S+) (\S+)\]' (passed|failed|skipped) \((\d+(?:\.\d+)?) seconds\)\.$/;
+// "/path/LoginTests.swift:42: error: -[MyAppTests.LoginTests testInvalidPassword] : XCTAssertEqual failed: ..."
+const CASE_FAILURE = /^(.+?):(\d+): error: -\[(\S+) (\S+)\] : (.*)$/;
+
+function parseClass(qualified: string): Pick<TestCaseRef, 'module' | 'className'> {
+    const dot = qualified.lastIndexOf('.');
+    return dot === -1
+        ? { className: qualified }
+        : { module: qualified.slice(0, dot), className: qualified.slice(dot + 1) };
+}
+
+/**
+ * Incrementally parses the output of `xcodebuild test`, reporting each test
+ * case as it starts and finishes.
+ */
+export class TestLogParser {
+    private buffer = '';
+    private failures = new Map<string, TestFailure[]>();
+
+    constructor(private readonly onEvent: (event: TestLogEvent) => void) {}
+
+    feed(chunk: string) {
+        this.buffer += chunk;
+        const lines = this.buffer.split(/\r?\n/);
+        this.buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            this.parseLine(line);
+        }
+    }
+
+    end() {
+        if (this.buffer) {
+            this.parseLine(this.buffer);
+            this.buffer = '';
+        }
+    }
+
+    private parseLine(line: string) {
+        const started = line.match(CASE_STARTED);
+        if (started) {
+            this.onEvent({ kind: 'started', test: { ...parseClass(started[1]), method: started[2] } });
+            return;
+        }
+
+        const failure = line.match(CASE_FAILURE);
+        if (failure) {
+            const key = `${failure[3]} ${failure[4]}`;
+            if (!this.failures.has(key)) {
+                this.failures.set(key, []);
+            }
+            this.failures.get(key)!.push({
+                message: failure[5].trim(),
+                file: failure[1],
+                line: parseInt(failure[2], 10)
+            });
+            return;
+        }
+
+        const finished = line.match(CASE_FINISHED);
+        if (finished) {
+            const key = `${finished[1]} ${finished[2]}`;
+            const failures = this.failures.get(key) ?? [];
+            this.failures.delete(key);
+
+            this.onEvent({
+                kind: 'finished',
+                result: {
+                    ...parseClass(finished[1]),
+                    method: finished[2],
+                    status: finished[3] as TestStatus,
+                    duration: Math.round(parseFloat(finished[4]) * 1000),
+                    failures
+                }
+            });
+        }
+    }
+}
+
+export function parseTestLog(text: string): TestCaseResult[] {
+    const results: TestCaseResult[] = [];
+    const parser = new TestLogParser(event => {
+        if (event.kind === 'finished') {
+            results.push(event.result);
+        }
+    });
+    parser.feed(text);
+    parser.end();
+    return results;
+}
+
+// Node of `xcresulttool get test-results tests`
+interface XcresultTestNode {
+    nodeType: string;
+    name: string;
+    result?: string;
+    durationInSeconds?: number;
+    children?: XcresultTestNode[];
+}
+
+// "LoginTests.swift:42: XCTAssertEqual failed: ..."
+const FAILURE_MESSAGE = /^(.+?\.(?:swift|m|mm)):(\d+): (.*)$/s;
+
+function toStatus(result: string | undefined): TestStatus {
+    switch (result) {
+        case 'Passed':
+        case 'Expected Failure':
+            return 'passed';
+        case 'Skipped':
+            return 'skipped';
+        default:
+            return 'failed';
+    }
+}
+
+/**
+ * Flattens the test tree of an .xcresult bundle into test case results.
+ * Failure locations only carry the file name, not its full path.
+ */
+export function parseTestResults(data: { testNodes?: XcresultTestNode[] }): TestCaseResult[] {
+    const results: TestCaseResult[] = [];
+
+    const visit = (node: XcresultTestNode, module?: string, className?: string) => {
+        switch (node.nodeType) {
+            case 'Unit test bundle':
+            case 'UI test bundle':
+                module = node.name;
+                break;
+            case 'Test Suite':
+                className = node.name;
+                break;
+            case 'Test Case': {
+                const failures = (node.children || [])
+                    .filter(child => child.nodeType === 'Failure Message')
+                    .map(child => {
+                        const match = child.name.match(FAILURE_MESSAGE);
+                        return match
+                            ? { message: match[3].trim(), file: match[1], line: parseInt(match[2], 10) }
+                            : { message: child.name };
+                    });
+
+                results.push({
+                    module,
+                    className: className ?? '',
+                    method: node.name.replace(/\(\)$/, ''),
+                    status: toStatus(node.result),
+                    duration: node.durationInSeconds !== undefined
+                        ? Math.round(node.durationInSeconds * 1000)
+                        : undefined,
+                    failures
+                });
+                return;
+            }
+        }
+
+        for (const child of node.children || []) {
+            visit(child, module, className);
+        }
+    };
+
+    for (const node of data.testNodes || []) {
+        visit(node);
+    }
+
+    return results;
+}
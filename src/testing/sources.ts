@@ -0,0 +1,107 @@
+export interface TestMethodSource {
+    name: string;
+    line: number; // 0-based
+}
+
+export interface TestClassSource {
+    name: string;
+    line: number; // 0-based
+    methods: TestMethodSource[];
+}
+
+// "final class LoginTests: XCTestCase {" / "class UITests : BaseTestCase, XCTestCase"
+const SWIFT_CLASS = /^\s*(?:@\w+\s+)*(?:(?:public|open|internal|private|fileprivate|final)\s+)*class\s+(\w+)\s*:\s*[^{]*\bXCTestCase\b/;
+// "func testLogin() throws {" / "@MainActor func testLogin() async"
+const SWIFT_METHOD = /^\s*(?:@\w+\s+)*(?:(?:public|open|internal|override)\s+)*func\s+(test\w*)\s*\(\s*\)/;
+// "@interface LoginTests : XCTestCase"
+const OBJC_INTERFACE = /^\s*@interface\s+(\w+)\s*:\s*XCTestCase\b/;
+const OBJC_IMPLEMENTATION = /^\s*@implementation\s+(\w+)/;
+// "- (void)testLogin {"
+const OBJC_METHOD = /^\s*-\s*\(void\)\s*(test\w*)\s*(?:\{|$)/;
+
+/**
+ * Finds XCTestCase subclasses and their test methods in a Swift or Objective-C source.
+ * Methods are attributed to the test class whose body contains them.
+ */
+export function parseTestSource(text: string, language: 'swift' | 'objc'): TestClassSource[] {
+    const classes: TestClassSource[] = [];
+    const objcTestClasses = new Set<string>();
+    const lines = text.split(/\r?\n/);
+
+    if (language === 'objc') {
+        for (const line of lines) {
+            const match = line.match(OBJC_INTERFACE);
+            if (match) {
+                objcTestClasses.add(match[1]);
+            }
+        }
+    }
+
+    let current: TestClassSource | undefined;
+    let depth = 0;
+    let classDepth = 0;
+
+    lines.forEach((line, index) => {
+        if (language === 'swift') {
+            const classMatch = line.match(SWIFT_CLASS);
+            if (classMatch) {
+                current = { name: classMatch[1], line: index, methods: [] };
+                classDepth = depth;
+                classes.push(current);
+            } else {
+                const methodMatch = line.match(SWIFT_METHOD);
+                if (methodMatch && current) {
+                    current.methods.push({ name: methodMatch[1], line: index });
+                }
+            }
+
+            // The class ends with the brace that closes its body
+            const code = line.replace(/"(?:[^"\\]|\\.)*"/g, '""').replace(/\/\/.*$/, '');
+            const closes = (code.match(/}/g) || []).length;
+            depth += (code.match(/{/g) || []).length - closes;
+            if (current && closes > 0 && depth <= classDepth) {
+                current = undefined;
+            }
+        } else {
+            const implMatch = line.match(OBJC_IMPLEMENTATION);
+            if (implMatch) {
+                current = objcTestClasses.has(implMatch[1])
+                    ? { name: implMatch[1], line: index, methods: [] }
+                    : undefined;
+                if (current) {
+                    classes.push(current);
+                }
+                return;
+            }
+            if (/^\s*@end\b/.test(line)) {
+                current = undefined;
+                return;
+            }
+            const methodMatch = line.match(OBJC_METHOD);
+            if (methodMatch && current) {
+                current.methods.push({ name: methodMatch[1], line: index });
+            }
+        }
+    });
+
+    return classes.filter(c => c.methods.length > 0);
+}
+
+/**
+ * Returns the names of the test targets enabled in an .xcscheme file.
+ */
+export function parseSchemeTestTargets(xml: string): string[] {
+    const targets: string[] = [];
+
+    for (const match of xml.matchAll(/<TestableReference\b([^>]*)>([\s\S]*?)<\/TestableReference>/g)) {
+        if (/skipped\s*=\s*"YES"/.test(match[1])) {
+            continue;
+        }
+        const name = match[2].match(/BlueprintName\s*=\s*"([^"]+)"/);
+        if (name && !targets.includes(name[1])) {
+            targets.push(name[1]);
+        }
+    }
+
+    return targets;
+}
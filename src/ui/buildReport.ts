@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { BuildTimingEntry, BuildTimingHistory, toCsv } from '../xcode/buildTiming';
+
+type ReportMessage =
+    | { type: 'export'; format: 'csv' | 'json'; scheme?: string }
+    | { type: 'clear' };
+
+/**
+ * Webview with the build time trend, the latest per-target timings and the
+ * slowest steps of recent builds.
+ */
+export class BuildReport implements vscode.Disposable {
+    private static current: BuildReport | undefined;
+
+    private readonly panel: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+    private disposed = false;
+
+    static async show(history: BuildTimingHistory) {
+        if (BuildReport.current) {
+            BuildReport.current.panel.reveal();
+            await BuildReport.current.update();
+            return;
+        }
+        BuildReport.current = new BuildReport(history);
+        await BuildReport.current.update();
+    }
+
+    /**
+     * Refreshes an open report after a build.
+     */
+    static async refresh() {
+        await BuildReport.current?.update();
+    }
+
+    private constructor(private readonly history: BuildTimingHistory) {
+        this.panel = vscode.window.createWebviewPanel(
+            'simbuild.buildReport',
+            'SimBuild: Build Timing',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+
+        this.disposables.push(
+            this.panel.onDidDispose(() => this.dispose()),
+            this.panel.webview.onDidReceiveMessage((message: ReportMessage) => this.onMessage(message))
+        );
+    }
+
+    private async update() {
+        this.panel.webview.html = this.getHtml(await this.history.list());
+    }
+
+    private async onMessage(message: ReportMessage) {
+        if (message.type === 'clear') {
+            const confirm = await vscode.window.showWarningMessage(
+                'Delete all recorded build timings?',
+                { modal: true },
+                'Delete'
+            );
+            if (confirm === 'Delete') {
+                await this.history.clear();
+                await this.update();
+            }
+            return;
+        }
+
+        const entries = (await this.history.list()).filter(e => !message.scheme || e.scheme === message.scheme);
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(`build-timings.${message.format}`),
+            filters: message.format === 'csv' ? { 'CSV': ['csv'] } : { 'JSON': ['json'] }
+        });
+        if (!uri) {
+            return;
+        }
+
+        try {
+            await fs.promises.writeFile(
+                uri.fsPath,
+                message.format === 'csv' ? toCsv(entries) : JSON.stringify(entries, null, 2)
+            );
+            vscode.window.showInformationMessage(`Exported ${entries.length} build(s)`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to export build timings: ${error.message}`);
+        }
+    }
+
+    private getHtml(entries: BuildTimingEntry[]): string {
+        const nonce = Math.random().toString(36).slice(2);
+        // Escaped so that scheme names can't close the script tag
+        const data = JSON.stringify(entries).replace(/</g, '\\u003c');
+
+        return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .toolbar { display: flex; gap: 6px; align-items: center; margin-bottom: 12px; }
+    select { background: var(--vscode-dropdown-background); color: var(--vscode-dropdown-foreground); border: 1px solid var(--vscode-dropdown-border, transparent); }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 3px 10px; cursor: pointer; }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    h2 { font-size: 1.1em; margin: 20px 0 6px; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 2px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+    td.number, th.number { text-align: right; }
+    .bar { height: 10px; background: var(--vscode-charts-blue); }
+    .failed { color: var(--vscode-errorForeground); }
+    .empty { color: var(--vscode-descriptionForeground); }
+    svg text { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+</style>
+</head>
+<body>
+<div class="toolbar">
+    <label>Scheme <select id="scheme"></select></label>
+    <button id="csv">Export CSV</button>
+    <button id="json">Export JSON</button>
+    <button id="clear" class="secondary">Clear History</button>
+</div>
+<div id="report"></div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const entries = ${data};
+    const schemeSelect = document.getElementById('scheme');
+    const report = document.getElementById('report');
+
+    const seconds = ms => (ms / 1000).toFixed(1) + 's';
+    const escape = text => String(text).replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+
+    for (const scheme of [...new Set(entries.map(e => e.scheme))]) {
+        schemeSelect.add(new Option(scheme, scheme));
+    }
+    schemeSelect.add(new Option('All schemes', ''));
+
+    function chart(builds) {
+        const width = 640, height = 160, pad = 24;
+        const max = Math.max(...builds.map(b => b.duration), 1);
+        const x = i => pad + (builds.length > 1 ? i * (width - 2 * pad) / (builds.length - 1) : (width - 2 * pad) / 2);
+        const y = d => height - pad - d / max * (height - 2 * pad);
+        const line = builds.map((b, i) => x(i) + ',' + y(b.duration)).join(' ');
+        const dots = builds.map((b, i) =>
+            '<circle cx="' + x(i) + '" cy="' + y(b.duration) + '" r="3" style="fill: var(' +
+            (b.success ? (b.clean ? '--vscode-charts-orange' : '--vscode-charts-blue') : '--vscode-charts-red') + ')">' +
+            '<title>' + escape(new Date(b.timestamp).toLocaleString()) + ' · ' + seconds(b.duration) + (b.clean ? ' · clean' : '') + '</title></circle>'
+        ).join('');
+        return '<svg width="' + width + '" height="' + height + '">' +
+            '<text x="0" y="' + (pad - 8) + '">' + seconds(max) + '</text>' +
+            '<polyline points="' + line + '" style="fill: none; stroke: var(--vscode-charts-blue); stroke-width: 1.5" />' +
+            dots + '</svg>' +
+            '<div class="empty">Blue: incremental · Orange: clean · Red: failed</div>';
+    }
+
+    function bars(rows) {
+        const max = Math.max(...rows.map(r => r.duration), 1);
+        return '<table><tr><th>Name</th><th class="number">Time</th><th style="width:40%"></th></tr>' +
+            rows.map(r => '<tr><td title="' + escape(r.title || r.name) + '">' + escape(r.name) + '</td>' +
+                '<td class="number">' + seconds(r.duration) + '</td>' +
+                '<td><div class="bar" style="width:' + (r.duration / max * 100) + '%"></div></td></tr>').join('') +
+            '</table>';
+    }
+
+    // Average of each step over the builds it appears in, slowest first
+    function slowestSteps(builds) {
+        const totals = new Map();
+        for (const build of builds) {
+            for (const step of build.slowestSteps) {
+                const key = step.file || step.title;
+                const total = totals.get(key) || { name: key.split('/').pop(), title: step.target + ': ' + step.title, duration: 0, count: 0 };
+                total.duration += step.duration;
+                total.count++;
+                totals.set(key, total);
+            }
+        }
+        return [...totals.values()]
+            .map(t => ({ ...t, duration: t.duration / t.count }))
+            .sort((a, b) => b.duration - a.duration)
+            .slice(0, 20);
+    }
+
+    function render() {
+        const scheme = schemeSelect.value;
+        const builds = entries.filter(e => !scheme || e.scheme === scheme);
+        if (builds.length === 0) {
+            report.innerHTML = '<p class="empty">No builds recorded yet.</p>';
+            return;
+        }
+
+        const recent = builds.slice(-50);
+        const latest = builds[builds.length - 1];
+
+        report.innerHTML =
+            '<h2>Build time trend (last ' + recent.length + ')</h2>' + chart(recent) +
+            '<h2>Targets of the latest build · ' + escape(new Date(latest.timestamp).toLocaleString()) + '</h2>' +
+            (latest.targets.length ? bars([...latest.targets].sort((a, b) => b.duration - a.duration)) : '<p class="empty">No target timings.</p>') +
+            '<h2>Time per task type of the latest build</h2>' +
+            (latest.tasks.length ? bars(latest.tasks.map(t => ({ name: t.name + ' (' + t.tasks + ')', duration: t.duration }))) : '<p class="empty">No timing summary.</p>') +
+            '<h2>Slowest steps and files</h2>' +
+            bars(slowestSteps(recent)) +
+            '<h2>Recent builds</h2>' +
+            '<table><tr><th>Finished</th><th>Scheme</th><th>Configuration</th><th>Destination</th><th>Kind</th><th class="number">Time</th></tr>' +
+            recent.slice().reverse().map(b => '<tr class="' + (b.success ? '' : 'failed') + '">' +
+                '<td>' + escape(new Date(b.timestamp).toLocaleString()) + '</td>' +
+                '<td>' + escape(b.scheme) + '</td><td>' + escape(b.configuration) + '</td><td>' + escape(b.destination) + '</td>' +
+                '<td>' + (b.clean ? 'Clean' : 'Incremental') + (b.success ? '' : ' · Failed') + '</td>' +
+                '<td class="number">' + seconds(b.duration) + '</td></tr>').join('') +
+            '</table>';
+    }
+
+    schemeSelect.addEventListener('change', render);
+    document.getElementById('csv').addEventListener('click', () => vscode.postMessage({ type: 'export', format: 'csv', scheme: schemeSelect.value || undefined }));
+    document.getElementById('json').addEventListener('click', () => vscode.postMessage({ type: 'export', format: 'json', scheme: schemeSelect.value || undefined }));
+    document.getElementById('clear').addEventListener('click', () => vscode.postMessage({ type: 'clear' }));
+    render();
+</script>
+</body>
+</html>`;
+    }
+
+    dispose() {
+        // Disposing the panel fires onDidDispose, which calls back in here
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        if (BuildReport.current === this) {
+            BuildReport.current = undefined;
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.panel.dispose();
+    }
+}
@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import {
+    Device,
+    bootDevice,
+    shutdownDevice,
+    isAppInstalled,
+    uninstallApp
+} from '../devices/manager';
+import { osName } from '../devices/platform';
+import { getAppContainer } from '../devices/simulator';
+import { DeviceRegistry } from '../devices/registry';
+
+/**
+ * What the devices view needs from the rest of the extension.
+ */
+export interface DevicesViewHost {
+    getCurrentDevice(): Device | undefined;
+    selectDevice(device: Device): void;
+    getBundleId(): Promise<string | undefined>;
+}
+
+export type DeviceTreeNode =
+    | { kind: 'group'; label: string; devices: Device[] }
+    | { kind: 'device'; device: Device; installed?: boolean };
+
+export class DevicesTreeProvider implements vscode.TreeDataProvider<DeviceTreeNode> {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private groups: DeviceTreeNode[] = [];
+    private installed = new Map<string, boolean | undefined>();
+    private snapshot = '';
+
+    constructor(
+        private readonly host: DevicesViewHost,
+        private readonly registry: DeviceRegistry
+    ) {}
+
+    /**
+     * Re-reads the registry and app install state, notifying the view only when something changed.
+     */
+    async refresh(force = false) {
+        const devices = this.registry.all;
+        const bundleId = await this.host.getBundleId();
+
+        const installed = new Map<string, boolean | undefined>();
+        if (bundleId) {
+            await Promise.all(devices.map(async device => {
+                installed.set(device.udid, await isAppInstalled(device, bundleId));
+            }));
+        }
+
+        const snapshot = JSON.stringify([
+            devices.map(d => [d.udid, d.name, d.state]),
+            [...installed],
+            this.host.getCurrentDevice()?.udid
+        ]);
+        if (!force && snapshot === this.snapshot) {
+            return;
+        }
+
+        this.snapshot = snapshot;
+        this.installed = installed;
+        this.groups = this.groupDevices(devices);
+        this._onDidChangeTreeData.fire();
+    }
+
+    private groupDevices(devices: Device[]): DeviceTreeNode[] {
+        const groups: DeviceTreeNode[] = [];
+
+        const realDevices = devices.filter(d => d.type === 'device');
+        if (realDevices.length > 0) {
+            groups.push({ kind: 'group', label: 'Physical Devices', devices: realDevices });
+        }
+
+        // Group simulators by runtime
+        const runtimes = new Map<string, Device[]>();
+        for (const sim of devices.filter(d => d.type === 'simulator')) {
+            const runtime = `${osName(sim)} ${sim.osVersion}`;
+            if (!runtimes.has(runtime)) {
+                runtimes.set(runtime, []);
+            }
+            runtimes.get(runtime)!.push(sim);
+        }
+        for (const [runtime, sims] of runtimes) {
+            groups.push({ kind: 'group', label: runtime, devices: sims });
+        }
+
+        return groups;
+    }
+
+    getTreeItem(node: DeviceTreeNode): vscode.TreeItem {
+        if (node.kind === 'group') {
+            return new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+        }
+
+        const { device, installed } = node;
+        const item = new vscode.TreeItem(device.name, vscode.TreeItemCollapsibleState.None);
+        const booted = device.type === 'device' || device.state === 'Booted';
+        const selected = this.host.getCurrentDevice()?.udid === device.udid;
+
+        const details = [device.state];
+        if (installed) {
+            details.push('App installed');
+        }
+        if (selected) {
+            details.push('Target');
+        }
+
+        item.description = details.join(' · ');
+        item.tooltip = `${device.name}\n${device.platform} ${device.osVersion}\n${device.udid}`;
+        item.iconPath = new vscode.ThemeIcon(
+            device.type === 'device' ? 'plug' : booted ? 'vm-running' : 'device-mobile',
+            selected ? new vscode.ThemeColor('charts.green') : undefined
+        );
+        // Used by the context menu "when" clauses
+        item.contextValue = `${device.type}-${booted ? 'booted' : 'shutdown'}${installed ? '-installed' : ''}`;
+
+        return item;
+    }
+
+    getChildren(node?: DeviceTreeNode): DeviceTreeNode[] {
+        if (!node) {
+            return this.groups;
+        }
+        if (node.kind === 'group') {
+            return node.devices.map(device => ({
+                kind: 'device',
+                device,
+                installed: this.installed.get(device.udid)
+            }));
+        }
+        return [];
+    }
+
+    dispose() {
+        this._onDidChangeTreeData.dispose();
+    }
+}
+
+export function registerDevicesView(
+    host: DevicesViewHost,
+    registry: DeviceRegistry
+): { provider: DevicesTreeProvider; disposable: vscode.Disposable } {
+    const provider = new DevicesTreeProvider(host, registry);
+    const treeView = vscode.window.createTreeView('simbuild.devices', { treeDataProvider: provider });
+
+    // Boot state follows the registry's polling, no manual refresh needed
+    const reload = async () => {
+        await registry.refresh();
+        await provider.refresh(true);
+    };
+    if (registry.isLoaded) {
+        provider.refresh(true);
+    } else {
+        reload();
+    }
+
+    const withDevice = (action: (device: Device) => Promise<unknown>) => async (node?: DeviceTreeNode) => {
+        if (node?.kind !== 'device') {
+            return;
+        }
+        try {
+            await action(node.device);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`SimBuild: ${error.message}`);
+        }
+        await reload();
+    };
+
+    const withApp = (action: (device: Device, bundleId: string) => Promise<unknown>) => withDevice(async device => {
+        const bundleId = await host.getBundleId();
+        if (!bundleId) {
+            throw new Error('No app bundle identifier known yet. Build the app first.');
+        }
+        await action(device, bundleId);
+    });
+
+    const disposable = vscode.Disposable.from(
+        provider,
+        treeView,
+        registry.onDidChange(() => provider.refresh()),
+        vscode.commands.registerCommand('simbuild.devices.refresh', reload),
+        vscode.commands.registerCommand('simbuild.devices.boot', withDevice(device => bootDevice(device))),
+        vscode.commands.registerCommand('simbuild.devices.shutdown', withDevice(device => shutdownDevice(device))),
+        vscode.commands.registerCommand('simbuild.devices.select', withDevice(async device => host.selectDevice(device))),
+        vscode.commands.registerCommand('simbuild.devices.openAppContainer', withApp(async (device, bundleId) => {
+            const container = await getAppContainer(device, bundleId);
+            await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(container));
+        })),
+        vscode.commands.registerCommand('simbuild.devices.uninstall', withApp(async (device, bundleId) => {
+            const confirm = await vscode.window.showWarningMessage(
+                `Uninstall ${bundleId} from "${device.name}"?`,
+                { modal: true },
+                'Uninstall'
+            );
+            if (confirm === 'Uninstall') {
+                await uninstallApp(device, bundleId);
+            }
+        }))
+    );
+
+    return { provider, disposable };
+}
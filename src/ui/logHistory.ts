@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import { LogHistory, LogSession } from '../logs/history';
+
+interface SessionQuickPickItem extends vscode.QuickPickItem {
+    session: LogSession;
+}
+
+const SEARCH_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('search'),
+    tooltip: 'Search All Sessions'
+};
+
+const COMPARE_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('diff'),
+    tooltip: 'Compare with...'
+};
+
+const DELETE_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('trash'),
+    tooltip: 'Delete'
+};
+
+function describeExit(session: LogSession): string {
+    if (!session.endedAt) {
+        return 'Running';
+    }
+    if (session.exitStatus === null || session.exitStatus === undefined) {
+        return 'Stopped';
+    }
+    return `Exit ${session.exitStatus}`;
+}
+
+function toItem(session: LogSession, buttons: vscode.QuickInputButton[] = []): SessionQuickPickItem {
+    return {
+        label: `${session.scheme} on ${session.device}`,
+        description: new Date(session.startedAt).toLocaleString(),
+        detail: [session.bundleId, session.commit, describeExit(session)].filter(Boolean).join(' · '),
+        buttons,
+        session
+    };
+}
+
+async function openSession(history: LogHistory, session: LogSession, line?: number) {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(history.logPath(session)));
+    const editor = await vscode.window.showTextDocument(document, { preview: true });
+    if (line !== undefined) {
+        const position = new vscode.Position(line, 0);
+        editor.selection = new vscode.Selection(position, position);
+        editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+    }
+}
+
+async function compareSessions(history: LogHistory, session: LogSession) {
+    const others = (await history.list()).filter(s => s.id !== session.id);
+    if (others.length === 0) {
+        vscode.window.showInformationMessage('No other console session to compare with.');
+        return;
+    }
+
+    const other = await vscode.window.showQuickPick(others.map(s => toItem(s)), {
+        placeHolder: 'Compare with session',
+        matchOnDescription: true,
+        matchOnDetail: true
+    });
+    if (!other) {
+        return;
+    }
+
+    // Older session on the left
+    const [left, right] = other.session.startedAt < session.startedAt
+        ? [other.session, session]
+        : [session, other.session];
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        vscode.Uri.file(history.logPath(left)),
+        vscode.Uri.file(history.logPath(right)),
+        `${new Date(left.startedAt).toLocaleString()} ↔ ${new Date(right.startedAt).toLocaleString()}`
+    );
+}
+
+async function searchSessions(history: LogHistory) {
+    const query = await vscode.window.showInputBox({ prompt: 'Search console history' });
+    if (!query) {
+        return;
+    }
+
+    const matches = await history.search(query);
+    if (matches.length === 0) {
+        vscode.window.showInformationMessage(`No console output matches "${query}".`);
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        matches.map(match => ({
+            label: match.text.trim(),
+            description: `${match.session.scheme} on ${match.session.device}`,
+            detail: `${new Date(match.session.startedAt).toLocaleString()} · line ${match.line + 1}`,
+            match
+        })),
+        { placeHolder: `${matches.length} match(es) for "${query}"`, matchOnDescription: true }
+    );
+
+    if (selected) {
+        await openSession(history, selected.match.session, selected.match.line);
+    }
+}
+
+type HistoryPickResult =
+    | { kind: 'open'; session: LogSession }
+    | { kind: 'compare'; session: LogSession }
+    | { kind: 'delete'; session: LogSession }
+    | { kind: 'search' };
+
+/**
+ * Lists stored console sessions. Opens, compares or deletes a session, or searches all of them.
+ */
+export async function showLogHistory(history: LogHistory): Promise<void> {
+    const sessions = await history.list();
+    if (sessions.length === 0) {
+        vscode.window.showInformationMessage('No console history yet. Run the app first.');
+        return;
+    }
+
+    const quickPick = vscode.window.createQuickPick<SessionQuickPickItem>();
+    quickPick.items = sessions.map(s => toItem(s, [COMPARE_BUTTON, DELETE_BUTTON]));
+    quickPick.placeholder = 'Select a console session to open';
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+    quickPick.buttons = [SEARCH_BUTTON];
+
+    const result = await new Promise<HistoryPickResult | undefined>((resolve) => {
+        quickPick.onDidAccept(() => {
+            const session = quickPick.selectedItems[0]?.session;
+            resolve(session ? { kind: 'open', session } : undefined);
+        });
+        quickPick.onDidTriggerItemButton(e => {
+            resolve({ kind: e.button === COMPARE_BUTTON ? 'compare' : 'delete', session: e.item.session });
+        });
+        quickPick.onDidTriggerButton(() => resolve({ kind: 'search' }));
+        quickPick.onDidHide(() => resolve(undefined));
+        quickPick.show();
+    });
+
+    quickPick.dispose();
+
+    switch (result?.kind) {
+        case 'open':
+            await openSession(history, result.session);
+            break;
+        case 'compare':
+            await compareSessions(history, result.session);
+            break;
+        case 'delete':
+            await history.delete(result.session);
+            await showLogHistory(history);
+            break;
+        case 'search':
+            await searchSessions(history);
+            break;
+    }
+}
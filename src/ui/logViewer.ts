@@ -0,0 +1,295 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { ChildProcess } from 'child_process';
+import { Device, spawnSystemLog } from '../devices/manager';
+import { LogFilter, LogRecord, NdjsonLogParser, formatLogRecord, matchesFilter } from '../logs/ndjson';
+
+// Oldest records are dropped beyond this, in the panel and for export
+const MAX_RECORDS = 20000;
+const FLUSH_INTERVAL = 250;
+
+type ViewerMessage =
+    | { type: 'pause' }
+    | { type: 'resume' }
+    | { type: 'clear' }
+    | { type: 'export'; filter: LogFilter };
+
+/**
+ * Webview that streams a simulator's unified log as structured records
+ * with level, subsystem, category and text filters.
+ */
+export class LogViewer implements vscode.Disposable {
+    private static current: LogViewer | undefined;
+
+    private readonly panel: vscode.WebviewPanel;
+    private records: LogRecord[] = [];
+    private pending: LogRecord[] = [];
+    private paused = false;
+    private process: ChildProcess | undefined;
+    private timer: NodeJS.Timeout;
+    private disposables: vscode.Disposable[] = [];
+    private disposed = false;
+
+    static show(device: Device, bundleId: string, processName?: string) {
+        LogViewer.current?.dispose();
+        LogViewer.current = new LogViewer(device, bundleId, processName);
+    }
+
+    static disposeCurrent() {
+        LogViewer.current?.dispose();
+    }
+
+    private constructor(
+        private readonly device: Device,
+        private readonly bundleId: string,
+        processName: string | undefined
+    ) {
+        this.panel = vscode.window.createWebviewPanel(
+            'simbuild.logViewer',
+            `Logs: ${device.name}`,
+            vscode.ViewColumn.Beside,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.webview.html = this.getHtml();
+
+        this.disposables.push(
+            this.panel.onDidDispose(() => this.dispose()),
+            this.panel.webview.onDidReceiveMessage((message: ViewerMessage) => this.onMessage(message))
+        );
+
+        this.timer = setInterval(() => this.flush(), FLUSH_INTERVAL);
+        this.start(processName);
+    }
+
+    private start(processName: string | undefined) {
+        const parser = new NdjsonLogParser(record => {
+            this.records.push(record);
+            if (this.records.length > MAX_RECORDS) {
+                this.records.shift();
+            }
+            if (!this.paused) {
+                this.pending.push(record);
+            }
+        });
+
+        this.process = spawnSystemLog(this.device, this.bundleId, processName, 'ndjson');
+        this.process.stdout?.on('data', (data: Buffer) => parser.feed(data.toString()));
+        this.process.stderr?.on('data', (data: Buffer) => this.post({ type: 'status', text: data.toString().trim() }));
+        this.process.on('error', (err) => this.post({ type: 'status', text: `Failed to start log stream: ${err.message}` }));
+        this.process.on('close', () => {
+            parser.end();
+            this.process = undefined;
+            if (!this.disposed) {
+                this.post({ type: 'status', text: 'Log stream ended' });
+            }
+        });
+
+        this.post({ type: 'status', text: `Streaming ${this.bundleId} on ${this.device.name}` });
+    }
+
+    private flush() {
+        if (this.pending.length > 0) {
+            this.post({ type: 'records', records: this.pending });
+            this.pending = [];
+        }
+    }
+
+    private post(message: object) {
+        this.panel.webview.postMessage(message);
+    }
+
+    private async onMessage(message: ViewerMessage) {
+        switch (message.type) {
+            case 'pause':
+                this.paused = true;
+                break;
+            case 'resume':
+                // Show everything that arrived while paused
+                this.paused = false;
+                this.post({ type: 'reset', records: this.records });
+                this.pending = [];
+                break;
+            case 'clear':
+                this.records = [];
+                this.pending = [];
+                break;
+            case 'export':
+                await this.export(message.filter);
+                break;
+        }
+    }
+
+    private async export(filter: LogFilter) {
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(`${this.bundleId}.log`),
+            filters: { 'Log': ['log', 'txt'], 'JSON': ['json'] }
+        });
+        if (!uri) {
+            return;
+        }
+
+        const records = this.records.filter(r => matchesFilter(r, filter));
+        const content = uri.fsPath.endsWith('.json')
+            ? JSON.stringify(records, null, 2)
+            : records.map(formatLogRecord).join('\n') + '\n';
+
+        try {
+            await fs.promises.writeFile(uri.fsPath, content);
+            vscode.window.showInformationMessage(`Exported ${records.length} log records`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to export logs: ${error.message}`);
+        }
+    }
+
+    private getHtml(): string {
+        const nonce = Math.random().toString(36).slice(2);
+        return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { padding: 0; font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+    .toolbar { position: sticky; top: 0; display: flex; gap: 6px; padding: 6px; background: var(--vscode-editor-background); border-bottom: 1px solid var(--vscode-panel-border); }
+    .toolbar input, .toolbar select { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); }
+    .toolbar input { flex: 1; min-width: 80px; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 2px 8px; cursor: pointer; }
+    #status { padding: 2px 6px; color: var(--vscode-descriptionForeground); }
+    table { border-collapse: collapse; width: 100%; }
+    td { padding: 1px 6px; vertical-align: top; white-space: nowrap; }
+    td.message { white-space: pre-wrap; width: 100%; }
+    tr.error td { color: var(--vscode-errorForeground); }
+    tr.fault td { color: var(--vscode-errorForeground); font-weight: bold; }
+    tr.debug td { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<div class="toolbar">
+    <select id="level">
+        <option value="debug" selected>Debug</option>
+        <option value="info">Info</option>
+        <option value="default">Default</option>
+        <option value="error">Error</option>
+        <option value="fault">Fault</option>
+    </select>
+    <input id="subsystem" placeholder="Subsystem">
+    <input id="category" placeholder="Category">
+    <input id="text" placeholder="Search">
+    <button id="pause">Pause</button>
+    <button id="clear">Clear</button>
+    <button id="export">Export</button>
+</div>
+<div id="status"></div>
+<table><tbody id="records"></tbody></table>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const LEVELS = ['debug', 'info', 'default', 'error', 'fault'];
+    const MAX_ROWS = ${MAX_RECORDS};
+    const body = document.getElementById('records');
+    const inputs = ['level', 'subsystem', 'category', 'text'].map(id => document.getElementById(id));
+    let records = [];
+    let paused = false;
+
+    function getFilter() {
+        const [level, subsystem, category, text] = inputs.map(input => input.value);
+        return { level, subsystem, category, text };
+    }
+
+    // Same rules as matchesFilter() in logs/ndjson.ts
+    function matches(record, filter) {
+        const contains = (value, search) => !search || value.toLowerCase().includes(search.toLowerCase());
+        return LEVELS.indexOf(record.level) >= LEVELS.indexOf(filter.level) &&
+            contains(record.subsystem, filter.subsystem) &&
+            contains(record.category, filter.category) &&
+            (contains(record.message, filter.text) || contains(record.process, filter.text));
+    }
+
+    function row(record) {
+        const tr = document.createElement('tr');
+        tr.className = record.level;
+        const scope = record.subsystem + (record.category ? ':' + record.category : '');
+        for (const [value, cls] of [[record.timestamp], [record.level], [record.process], [scope], [record.message, 'message']]) {
+            const td = document.createElement('td');
+            td.textContent = value;
+            if (cls) { td.className = cls; }
+            tr.appendChild(td);
+        }
+        return tr;
+    }
+
+    function append(newRecords) {
+        const filter = getFilter();
+        const atBottom = window.innerHeight + window.scrollY >= document.body.scrollHeight - 20;
+        const fragment = document.createDocumentFragment();
+        for (const record of newRecords) {
+            if (matches(record, filter)) {
+                fragment.appendChild(row(record));
+            }
+        }
+        body.appendChild(fragment);
+        while (body.childElementCount > MAX_ROWS) {
+            body.removeChild(body.firstChild);
+        }
+        if (atBottom) {
+            window.scrollTo(0, document.body.scrollHeight);
+        }
+    }
+
+    function render() {
+        body.textContent = '';
+        append(records);
+    }
+
+    inputs.forEach(input => input.addEventListener('input', render));
+
+    document.getElementById('pause').addEventListener('click', event => {
+        paused = !paused;
+        event.target.textContent = paused ? 'Resume' : 'Pause';
+        vscode.postMessage({ type: paused ? 'pause' : 'resume' });
+    });
+    document.getElementById('clear').addEventListener('click', () => {
+        records = [];
+        render();
+        vscode.postMessage({ type: 'clear' });
+    });
+    document.getElementById('export').addEventListener('click', () => {
+        vscode.postMessage({ type: 'export', filter: getFilter() });
+    });
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'records') {
+            records.push(...message.records);
+            if (records.length > MAX_ROWS) {
+                records.splice(0, records.length - MAX_ROWS);
+            }
+            append(message.records);
+        } else if (message.type === 'reset') {
+            records = message.records;
+            render();
+        } else if (message.type === 'status') {
+            document.getElementById('status').textContent = message.text;
+        }
+    });
+</script>
+</body>
+</html>`;
+    }
+
+    dispose() {
+        // Disposing the panel fires onDidDispose, which calls back in here
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        if (LogViewer.current === this) {
+            LogViewer.current = undefined;
+        }
+        clearInterval(this.timer);
+        this.process?.kill('SIGTERM');
+        this.process = undefined;
+        this.panel.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,92 @@
+import type * as vscode from 'vscode';
+import type { Device, DeviceType } from '../devices/manager';
+
+/**
+ * What the user picked for one project.
+ */
+export interface ProjectState {
+    scheme?: string;
+    configuration?: string;
+    /** UDID of the run destination */
+    device?: string;
+    /** Shown for the device while it isn't connected */
+    deviceName?: string;
+    deviceType?: DeviceType;
+    /** UDIDs picked for running on multiple devices */
+    devices?: string[];
+}
+
+const KEY_ACTIVE_PROJECTS = 'simbuild.activeProjects';
+const KEY_PROJECT_STATES = 'simbuild.projectStates';
+
+// Before selections were kept per project there was one of each for the workspace
+const LEGACY_KEYS: { [key in 'scheme' | 'configuration' | 'device' | 'devices']: string } = {
+    scheme: 'simbuild.selectedScheme',
+    configuration: 'simbuild.selectedConfiguration',
+    device: 'simbuild.selectedDevice',
+    devices: 'simbuild.selectedDevices'
+};
+
+/**
+ * The fields of ProjectState that select the device.
+ */
+export function deviceSelection(device: Device | undefined): Pick<ProjectState, 'device' | 'deviceName' | 'deviceType'> {
+    return { device: device?.udid, deviceName: device?.name, deviceType: device?.type };
+}
+
+/**
+ * Remembers the active project per workspace folder and the scheme,
+ * configuration and devices per project, in workspace state.
+ */
+export class ProjectSelection {
+    constructor(private readonly memento: vscode.Memento) {}
+
+    /**
+     * The saved projects of the given folders, in the same order.
+     */
+    getActiveProjects(folders: string[]): string[] {
+        const active = this.memento.get<{ [folder: string]: string }>(KEY_ACTIVE_PROJECTS, {});
+        return folders.map(folder => active[folder]).filter((project): project is string => project !== undefined);
+    }
+
+    async setActiveProject(folder: string, projectPath: string) {
+        const active = this.memento.get<{ [folder: string]: string }>(KEY_ACTIVE_PROJECTS, {});
+        await this.memento.update(KEY_ACTIVE_PROJECTS, { ...active, [folder]: projectPath });
+    }
+
+    get(projectPath: string): ProjectState {
+        return this.memento.get<{ [project: string]: ProjectState }>(KEY_PROJECT_STATES, {})[projectPath] ?? {};
+    }
+
+    async update(projectPath: string, changes: Partial<ProjectState>) {
+        const states = this.memento.get<{ [project: string]: ProjectState }>(KEY_PROJECT_STATES, {});
+        await this.memento.update(KEY_PROJECT_STATES, {
+            ...states,
+            [projectPath]: { ...states[projectPath], ...changes }
+        });
+    }
+
+    /**
+     * Moves the selections saved by older versions to the given project, the
+     * one they were made for unless the workspace has several.
+     */
+    async migrate(projectPath: string) {
+        const legacy: ProjectState = {};
+        for (const [field, key] of Object.entries(LEGACY_KEYS) as [keyof typeof LEGACY_KEYS, string][]) {
+            const value = this.memento.get<any>(key);
+            if (value !== undefined) {
+                // The device used to be stored as the whole Device object
+                if (field === 'device' && typeof value === 'object') {
+                    Object.assign(legacy, deviceSelection(value));
+                } else {
+                    legacy[field] = value;
+                }
+                await this.memento.update(key, undefined);
+            }
+        }
+
+        if (Object.keys(legacy).length > 0) {
+            await this.update(projectPath, { ...legacy, ...this.get(projectPath) });
+        }
+    }
+}
@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import { Device, listAllDevices } from '../devices/manager';
+import {
+    listDeviceTypes,
+    listRuntimes,
+    createSimulator,
+    cloneSimulator,
+    renameSimulator,
+    eraseSimulator,
+    shutdownSimulator,
+    deleteUnavailableSimulators
+} from '../devices/simulator';
+
+export type SimulatorAction = 'shutdown' | 'erase' | 'rename' | 'clone';
+
+export interface SimulatorActionButton extends vscode.QuickInputButton {
+    action: SimulatorAction;
+}
+
+const ACTION_BUTTONS: { [action in SimulatorAction]: SimulatorActionButton } = {
+    shutdown: { action: 'shutdown', iconPath: new vscode.ThemeIcon('debug-stop'), tooltip: 'Shut Down' },
+    rename: { action: 'rename', iconPath: new vscode.ThemeIcon('edit'), tooltip: 'Rename' },
+    clone: { action: 'clone', iconPath: new vscode.ThemeIcon('copy'), tooltip: 'Clone' },
+    erase: { action: 'erase', iconPath: new vscode.ThemeIcon('clear-all'), tooltip: 'Erase Content and Settings' }
+};
+
+/**
+ * Inline quick pick buttons for a simulator entry.
+ */
+export function getSimulatorButtons(device: Device): SimulatorActionButton[] {
+    const buttons = [ACTION_BUTTONS.rename, ACTION_BUTTONS.clone, ACTION_BUTTONS.erase];
+    return device.state === 'Booted' ? [ACTION_BUTTONS.shutdown, ...buttons] : buttons;
+}
+
+export async function pickSimulator(placeHolder: string): Promise<Device | undefined> {
+    const simulators = (await listAllDevices()).filter(d => d.type === 'simulator');
+
+    const selected = await vscode.window.showQuickPick(
+        simulators.map(sim => ({
+            label: sim.name,
+            description: `${sim.platform} ${sim.osVersion}`,
+            detail: sim.state,
+            device: sim
+        })),
+        { placeHolder, matchOnDescription: true }
+    );
+
+    return selected?.device;
+}
+
+/**
+ * Runs a lifecycle action on a simulator, asking for names or confirmation as needed.
+ * Returns true when the simulator was changed.
+ */
+export async function runSimulatorAction(action: SimulatorAction, device: Device): Promise<boolean> {
+    try {
+        switch (action) {
+            case 'shutdown':
+                await shutdownSimulator(device.udid);
+                return true;
+
+            case 'erase': {
+                const confirm = await vscode.window.showWarningMessage(
+                    `Erase all content and settings of "${device.name}"?`,
+                    { modal: true },
+                    'Erase'
+                );
+                if (confirm !== 'Erase') {
+                    return false;
+                }
+                // simctl can only erase shut down simulators
+                await shutdownSimulator(device.udid);
+                await eraseSimulator(device.udid);
+                return true;
+            }
+
+            case 'rename': {
+                const name = await vscode.window.showInputBox({
+                    prompt: 'New simulator name',
+                    value: device.name,
+                    validateInput: value => value.trim() ? undefined : 'Name is required'
+                });
+                if (!name || name === device.name) {
+                    return false;
+                }
+                await renameSimulator(device.udid, name.trim());
+                return true;
+            }
+
+            case 'clone': {
+                // simctl can only clone shut down simulators
+                if (device.state === 'Booted') {
+                    const confirm = await vscode.window.showWarningMessage(
+                        `"${device.name}" has to be shut down to clone it. Apps running on it will be stopped.`,
+                        { modal: true },
+                        'Shut Down and Clone'
+                    );
+                    if (confirm !== 'Shut Down and Clone') {
+                        return false;
+                    }
+                }
+
+                const name = await vscode.window.showInputBox({
+                    prompt: 'Name of the cloned simulator',
+                    value: `${device.name} Copy`,
+                    validateInput: value => value.trim() ? undefined : 'Name is required'
+                });
+                if (!name) {
+                    return false;
+                }
+                await shutdownSimulator(device.udid);
+                await cloneSimulator(device.udid, name.trim());
+                return true;
+            }
+        }
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Simulator ${action} failed: ${error.message}`);
+        return false;
+    }
+}
+
+/**
+ * Walks through runtime, device type and name, then creates the simulator.
+ * Returns the UDID of the new simulator.
+ */
+export async function createSimulatorInteractive(): Promise<string | undefined> {
+    try {
+        const [runtimes, deviceTypes] = await Promise.all([listRuntimes(), listDeviceTypes()]);
+
+        const runtime = await vscode.window.showQuickPick(
+            runtimes
+                .filter(r => r.isAvailable)
+                .map(r => ({ label: r.name, description: r.identifier, runtime: r })),
+            { placeHolder: 'Select runtime' }
+        );
+        if (!runtime) {
+            return undefined;
+        }
+
+        // Older runtimes don't report supported device types
+        const supported = runtime.runtime.supportedDeviceTypes;
+        const deviceType = await vscode.window.showQuickPick(
+            deviceTypes
+                .filter(t => supported.length === 0 || supported.includes(t.identifier))
+                .map(t => ({ label: t.name, description: t.productFamily, deviceType: t })),
+            { placeHolder: 'Select device type', matchOnDescription: true }
+        );
+        if (!deviceType) {
+            return undefined;
+        }
+
+        const name = await vscode.window.showInputBox({
+            prompt: 'Simulator name',
+            value: deviceType.label,
+            validateInput: value => value.trim() ? undefined : 'Name is required'
+        });
+        if (!name) {
+            return undefined;
+        }
+
+        return await createSimulator(name.trim(), deviceType.deviceType.identifier, runtime.runtime.identifier);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to create simulator: ${error.message}`);
+        return undefined;
+    }
+}
+
+export async function deleteUnavailableInteractive(): Promise<boolean> {
+    const confirm = await vscode.window.showWarningMessage(
+        'Delete all simulators whose runtime is no longer installed?',
+        { modal: true },
+        'Delete'
+    );
+    if (confirm !== 'Delete') {
+        return false;
+    }
+
+    try {
+        await deleteUnavailableSimulators();
+        return true;
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to delete unavailable simulators: ${error.message}`);
+        return false;
+    }
+}
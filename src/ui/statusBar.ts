@@ -1,18 +1,32 @@
 import * as vscode from 'vscode';
 import { Device } from '../devices/manager';
+import { XcodeProject } from '../xcode/project';
 
 export class StatusBarManager {
+    private projectButton: vscode.StatusBarItem;
     private buildButton: vscode.StatusBarItem;
     private schemeButton: vscode.StatusBarItem;
+    private configurationButton: vscode.StatusBarItem;
     private deviceButton: vscode.StatusBarItem;
     private stopButton: vscode.StatusBarItem;
+    private watchButton: vscode.StatusBarItem;
 
+    private _currentProject: XcodeProject | undefined;
     private _currentScheme: string | undefined;
+    private _currentConfiguration: string | undefined;
     private _currentDevice: Device | undefined;
     private _isBuilding = false;
+    private _isWatching = false;
 
     constructor() {
-        // Build & Run button (leftmost)
+        // Active project (leftmost)
+        this.projectButton = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Left,
+            101
+        );
+        this.projectButton.command = 'simbuild.selectProject';
+
+        // Build & Run button
         this.buildButton = vscode.window.createStatusBarItem(
             vscode.StatusBarAlignment.Left,
             100
@@ -28,10 +42,18 @@ export class StatusBarManager {
         this.schemeButton.command = 'simbuild.selectScheme';
         this.schemeButton.tooltip = 'Select Scheme';
 
+        // Build configuration selector
+        this.configurationButton = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Left,
+            98
+        );
+        this.configurationButton.command = 'simbuild.selectConfiguration';
+        this.configurationButton.tooltip = 'Select Build Configuration';
+
         // Device selector
         this.deviceButton = vscode.window.createStatusBarItem(
             vscode.StatusBarAlignment.Left,
-            98
+            97
         );
         this.deviceButton.command = 'simbuild.selectSimulator';
         this.deviceButton.tooltip = 'Select Device';
@@ -39,13 +61,22 @@ export class StatusBarManager {
         // Stop button (hidden by default)
         this.stopButton = vscode.window.createStatusBarItem(
             vscode.StatusBarAlignment.Left,
-            97
+            96
         );
         this.stopButton.command = 'simbuild.stop';
         this.stopButton.text = '$(debug-stop) Stop';
-        this.stopButton.tooltip = 'Stop Build';
+        this.stopButton.tooltip = 'Stop Build & Run';
         this.stopButton.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
 
+        // Watch mode indicator (hidden unless watching)
+        this.watchButton = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Left,
+            95
+        );
+        this.watchButton.command = 'simbuild.toggleWatch';
+        this.watchButton.text = '$(eye) Watching';
+        this.watchButton.tooltip = 'Rebuilding and relaunching on save. Click to stop watching.';
+
         this.updateUI();
     }
 
@@ -53,15 +84,29 @@ export class StatusBarManager {
         return this._currentScheme;
     }
 
+    get currentConfiguration(): string | undefined {
+        return this._currentConfiguration;
+    }
+
     get currentDevice(): Device | undefined {
         return this._currentDevice;
     }
 
+    setProject(project: XcodeProject | undefined) {
+        this._currentProject = project;
+        this.updateUI();
+    }
+
     setScheme(scheme: string | undefined) {
         this._currentScheme = scheme;
         this.updateUI();
     }
 
+    setConfiguration(configuration: string | undefined) {
+        this._currentConfiguration = configuration;
+        this.updateUI();
+    }
+
     setDevice(device: Device | undefined) {
         this._currentDevice = device;
         this.updateUI();
@@ -72,17 +117,34 @@ export class StatusBarManager {
         this.updateUI(message);
     }
 
+    setWatching(watching: boolean) {
+        this._isWatching = watching;
+        if (watching) {
+            this.watchButton.show();
+        } else {
+            this.watchButton.hide();
+        }
+    }
+
     show() {
+        this.projectButton.show();
         this.buildButton.show();
         this.schemeButton.show();
+        this.configurationButton.show();
         this.deviceButton.show();
+        if (this._isWatching) {
+            this.watchButton.show();
+        }
     }
 
     hide() {
+        this.projectButton.hide();
         this.buildButton.hide();
         this.schemeButton.hide();
+        this.configurationButton.hide();
         this.deviceButton.hide();
         this.stopButton.hide();
+        this.watchButton.hide();
     }
 
     private updateUI(buildMessage?: string) {
@@ -96,6 +158,15 @@ export class StatusBarManager {
             this.stopButton.hide();
         }
 
+        // Project button
+        if (this._currentProject) {
+            this.projectButton.text = `$(root-folder) ${this._currentProject.name}`;
+            this.projectButton.tooltip = `${this._currentProject.path}\nSelect Project`;
+        } else {
+            this.projectButton.text = '$(root-folder) Select Project';
+            this.projectButton.tooltip = 'Select Project';
+        }
+
         // Scheme button
         if (this._currentScheme) {
             this.schemeButton.text = `$(package) ${this._currentScheme}`;
@@ -103,6 +174,13 @@ export class StatusBarManager {
             this.schemeButton.text = '$(package) Select Scheme';
         }
 
+        // Configuration button
+        if (this._currentConfiguration) {
+            this.configurationButton.text = `$(gear) ${this._currentConfiguration}`;
+        } else {
+            this.configurationButton.text = '$(gear) Select Configuration';
+        }
+
         // Device button
         if (this._currentDevice) {
             const icon = this._currentDevice.type === 'simulator' ? '$(device-mobile)' : '$(plug)';
@@ -113,16 +191,26 @@ export class StatusBarManager {
         }
     }
 
-    showBuildResult(success: boolean, duration: number) {
+    showBuildResult(success: boolean, duration: number, warningCount = 0) {
         const durationStr = (duration / 1000).toFixed(1);
         if (success) {
-            this.buildButton.text = `$(check) Built (${durationStr}s)`;
+            const warnings = warningCount > 0 ? ` $(warning) ${warningCount}` : '';
+            this.buildButton.text = `$(check) Built (${durationStr}s)${warnings}`;
             this.buildButton.backgroundColor = undefined;
         } else {
             this.buildButton.text = `$(error) Failed`;
             this.buildButton.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
         }
+        this.resetBuildButtonLater();
+    }
+
+    showCancelled() {
+        this.buildButton.text = '$(circle-slash) Cancelled';
+        this.buildButton.backgroundColor = undefined;
+        this.resetBuildButtonLater();
+    }
 
+    private resetBuildButtonLater() {
         // Reset after 5 seconds
         setTimeout(() => {
             if (!this._isBuilding) {
@@ -133,9 +221,12 @@ export class StatusBarManager {
     }
 
     dispose() {
+        this.projectButton.dispose();
         this.buildButton.dispose();
         this.schemeButton.dispose();
+        this.configurationButton.dispose();
         this.deviceButton.dispose();
         this.stopButton.dispose();
+        this.watchButton.dispose();
     }
 }
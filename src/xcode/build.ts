@@ -1,57 +1,86 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
-import { spawn, ChildProcess } from 'child_process';
-import { XcodeProject } from './project';
+import * as vscode from 'vscode';
+import { XcodeProject, projectArgs, projectDirectory } from './project';
 import { Device } from '../devices/manager';
+import { getDestination, productFolder } from '../devices/platform';
+import { BuildIssue, parseBuildLog } from './buildLog';
+import { BuildDestination, StepTiming, TargetTiming, prepareResultBundlePath, readResultBundle } from './xcresult';
+import { BuildSettingsQuery, resolveAppProduct } from './buildSettings';
+import { BuildProgress, BuildRecord, estimateRemaining, formatBuildProgress } from './buildProgress';
+import { TaskTiming, parseBuildTimingSummary } from './buildTiming';
+import { CancellationToken, spawnProcess } from '../process/runner';
 
 export interface BuildOptions {
     project: XcodeProject;
     scheme: string;
+    configuration: string;
     device: Device;
     derivedDataPath?: string;
     clean?: boolean;
+    /** Recent builds of the same scheme, for the ETA */
+    previousBuild?: BuildRecord;
+    /** Stops xcodebuild when cancellation is requested */
+    token?: CancellationToken;
 }
 
 export interface BuildResult {
     success: boolean;
     appPath?: string;
+    bundleId?: string;
+    executablePath?: string;
     duration: number;
     error?: string;
+    /** The build was stopped before it finished */
+    cancelled?: boolean;
+    issues: BuildIssue[];
+    errorCount: number;
+    warningCount: number;
+    targets: TargetTiming[];
+    steps: StepTiming[];
+    tasks: TaskTiming[];
+    productPaths: string[];
+    destination?: BuildDestination;
+    resultBundlePath?: string;
+    filesCompiled: number;
 }
 
-let currentBuildProcess: ChildProcess | null = null;
-
-export function stopBuild(): boolean {
-    if (currentBuildProcess) {
-        currentBuildProcess.kill('SIGTERM');
-        currentBuildProcess = null;
-        return true;
-    }
-    return false;
+/**
+ * The app among the products of a build, preferring the one built for the
+ * destination's platform when a scheme also builds e.g. a watch app.
+ */
+export function findAppProduct(productPaths: string[], folder: string | undefined): string | undefined {
+    const apps = productPaths.filter(p => p.endsWith('.app'));
+    return apps.find(p => path.basename(path.dirname(p)) === folder) ?? apps[0];
 }
 
 export async function build(
     options: BuildOptions,
     outputChannel: vscode.OutputChannel,
-    onProgress?: (message: string) => void
+    onProgress?: (message: string, fraction?: number) => void
 ): Promise<BuildResult> {
     const startTime = Date.now();
 
-    const projectFlag = options.project.type === 'workspace' ? '-workspace' : '-project';
-
-    // Build destination based on device type
-    const destination = options.device.type === 'simulator'
-        ? `platform=iOS Simulator,id=${options.device.udid}`
-        : `platform=iOS,id=${options.device.udid}`;
+    const settingsQuery: BuildSettingsQuery = {
+        project: options.project,
+        scheme: options.scheme,
+        configuration: options.configuration,
+        destination: getDestination(options.device),
+        derivedDataPath: options.derivedDataPath
+    };
 
     const args = [
-        projectFlag, options.project.path,
+        ...projectArgs(options.project),
         '-scheme', options.scheme,
-        '-destination', destination,
-        '-configuration', 'Debug',
+        '-destination', settingsQuery.destination,
+        '-configuration', settingsQuery.configuration,
         '-allowProvisioningUpdates', // Auto-sign for real devices
+        '-showBuildTimingSummary'
     ];
 
+    // Structured results (issues, timings, products) are read from the bundle afterwards
+    const resultBundlePath = prepareResultBundlePath(options.project.name, options.scheme);
+    args.push('-resultBundlePath', resultBundlePath);
+
     // Only specify derivedDataPath if user configured it
     if (options.derivedDataPath) {
         args.push('-derivedDataPath', options.derivedDataPath);
@@ -69,14 +98,14 @@ export async function build(
     outputChannel.appendLine('Building...\n');
 
     return new Promise((resolve) => {
-        const process = spawn('xcodebuild', args, {
-            cwd: path.dirname(options.project.path),
-            env: { ...global.process.env, LANG: 'en_US.UTF-8' }
+        const process = spawnProcess('xcodebuild', args, {
+            cwd: projectDirectory(options.project),
+            env: { ...global.process.env, LANG: 'en_US.UTF-8' },
+            token: options.token
         });
 
-        currentBuildProcess = process;
-
-        let lastPhase = '';
+        const progress = new BuildProgress(options.previousBuild?.files);
+        let lastMessage = '';
         let errorOutput = '';
         let buildOutput = '';
 
@@ -85,11 +114,15 @@ export async function build(
             outputChannel.append(text);
             buildOutput += text;
 
-            // Extract build phases for progress updates
-            const phaseMatch = text.match(/^(Compile|Link|Copy|Process|Sign|Build|Analyze|CodeSign)/m);
-            if (phaseMatch && phaseMatch[0] !== lastPhase) {
-                lastPhase = phaseMatch[0];
-                onProgress?.(`${lastPhase}...`);
+            if (progress.feed(text)) {
+                const snapshot = progress.snapshot;
+                const elapsed = Date.now() - startTime;
+                const remaining = estimateRemaining(options.previousBuild, elapsed, snapshot);
+                const message = formatBuildProgress(snapshot, remaining);
+                if (message !== lastMessage) {
+                    lastMessage = message;
+                    onProgress?.(message, remaining !== undefined ? elapsed / (elapsed + remaining) : undefined);
+                }
             }
         });
 
@@ -99,92 +132,93 @@ export async function build(
             errorOutput += text;
         });
 
-        process.on('close', (code) => {
-            currentBuildProcess = null;
+        process.on('close', async (code) => {
             const duration = Date.now() - startTime;
 
+            // Prefer the result bundle, fall back to scanning the text output
+            const summary = await readResultBundle(resultBundlePath);
+            const issues = summary?.issues ?? parseBuildLog(buildOutput + '\n' + errorOutput);
+            const errorCount = summary?.errorCount ?? issues.filter(i => i.severity === 'error').length;
+            const warningCount = summary?.warningCount ?? issues.filter(i => i.severity === 'warning').length;
+            const details = {
+                issues,
+                errorCount,
+                warningCount,
+                targets: summary?.targets ?? [],
+                steps: summary?.steps ?? [],
+                tasks: parseBuildTimingSummary(buildOutput),
+                productPaths: summary?.productPaths ?? [],
+                destination: summary?.destination,
+                resultBundlePath: summary ? resultBundlePath : undefined,
+                filesCompiled: progress.snapshot.filesCompiled
+            };
+
             if (code === 0) {
-                // Find the built app path from build output
-                // Look for patterns like "Touch /path/to/App.app" or "CodeSign /path/to/App.app"
-                const productDir = options.device.type === 'simulator'
-                    ? 'Debug-iphonesimulator'
-                    : 'Debug-iphoneos';
-
-                let appPath: string | undefined;
-
-                // Try to find app path in build output
-                const appPathMatch = buildOutput.match(
-                    new RegExp(`(/[^\\s]+/${productDir}/${options.scheme}\\.app)(?:\\s|$)`, 'm')
-                );
-
-                if (appPathMatch) {
-                    appPath = appPathMatch[1];
-                } else if (options.derivedDataPath) {
-                    // Fallback to configured derivedDataPath
-                    appPath = path.join(
-                        options.derivedDataPath,
-                        'Build/Products',
-                        productDir,
-                        `${options.scheme}.app`
-                    );
-                } else {
-                    // Fallback to Xcode default DerivedData location
-                    const homeDir = global.process.env.HOME || '/Users/' + global.process.env.USER;
-                    const defaultDerivedData = path.join(homeDir, 'Library/Developer/Xcode/DerivedData');
-
-                    // Find the project's derived data folder
-                    const fs = require('fs');
-                    try {
-                        const dirs = fs.readdirSync(defaultDerivedData);
-                        const projectDir = dirs.find((d: string) =>
-                            d.startsWith(options.scheme) || d.startsWith(options.project.name)
-                        );
-                        if (projectDir) {
-                            appPath = path.join(
-                                defaultDerivedData,
-                                projectDir,
-                                'Build/Products',
-                                productDir,
-                                `${options.scheme}.app`
-                            );
-                        }
-                    } catch {
-                        // Ignore errors
-                    }
-                }
+                // Build settings know the real product location and name,
+                // the result bundle is only consulted when they can't be read
+                const product = await resolveAppProduct(settingsQuery);
+                const appPath = product?.appPath
+                    ?? findAppProduct(details.productPaths, productFolder(options.device, options.configuration));
 
                 outputChannel.appendLine(`\n✓ Build succeeded (${(duration / 1000).toFixed(1)}s)`);
                 if (appPath) {
                     outputChannel.appendLine(`  App: ${appPath}`);
                 }
+                if (warningCount > 0) {
+                    outputChannel.appendLine(`  ${warningCount} warning(s)`);
+                }
+                for (const target of details.targets) {
+                    outputChannel.appendLine(`  ${target.name}: ${(target.duration / 1000).toFixed(1)}s`);
+                }
 
                 resolve({
                     success: true,
                     appPath,
-                    duration
+                    bundleId: product?.bundleId,
+                    executablePath: product?.executablePath,
+                    duration,
+                    ...details
+                });
+            } else if (options.token?.isCancellationRequested) {
+                outputChannel.appendLine('\n⊘ Build cancelled');
+
+                resolve({
+                    success: false,
+                    cancelled: true,
+                    duration,
+                    error: 'Build cancelled',
+                    ...details
                 });
             } else {
                 outputChannel.appendLine(`\n✗ Build failed (exit code: ${code})`);
+                outputChannel.appendLine(`  ${errorCount} error(s), ${warningCount} warning(s)`);
 
-                // Try to extract meaningful error
-                const errorMatch = errorOutput.match(/error: (.+)/);
+                const firstError = issues.find(i => i.severity === 'error');
 
                 resolve({
                     success: false,
                     duration,
-                    error: errorMatch?.[1] || 'Build failed'
+                    error: firstError?.message || 'Build failed',
+                    ...details
                 });
             }
         });
 
         process.on('error', (err) => {
-            currentBuildProcess = null;
             outputChannel.appendLine(`\n✗ Failed to start build: ${err.message}`);
 
             resolve({
                 success: false,
                 duration: Date.now() - startTime,
-                error: err.message
+                error: err.message,
+                issues: [],
+                errorCount: 0,
+                warningCount: 0,
+                targets: [],
+                steps: [],
+                tasks: [],
+                productPaths: [],
+                filesCompiled: 0
             });
         });
     });
@@ -0,0 +1,127 @@
+export type BuildIssueSeverity = 'error' | 'warning' | 'note';
+
+export interface BuildIssue {
+    severity: BuildIssueSeverity;
+    message: string;
+    file?: string;
+    line?: number;
+    column?: number;
+    target?: string;
+}
+
+// "/path/File.swift:12:5: error: message" (Swift / Clang), column is optional
+const LOCATED_PATTERN = /^(.+?):(\d+):(?:(\d+):)?\s*(fatal error|error|warning|note):\s*(.*)$/;
+// "ld: warning: ..." or "ld: library not found for -lFoo"
+const LINKER_PATTERN = /^ld: (?:(error|warning): )?(.*)$/;
+// "Undefined symbols for architecture arm64:"
+const UNDEFINED_SYMBOLS_PATTERN = /^Undefined symbols for architecture (\S+):$/;
+const UNDEFINED_SYMBOL_PATTERN = /^\s+"(.+)", referenced from:$/;
+// "/path/Script-ABC.sh: line 3: swiftlint: command not found"
+const SCRIPT_PATTERN = /^(\/.+\.sh): line (\d+): (.*)$/;
+// "error: ...", "xcodebuild: error: ...", "clang: error: linker command failed ..."
+const GENERIC_PATTERN = /^(?:[\w.-]+: )?(error|warning): (.*)$/;
+// "\tPhaseScriptExecution Run\ Script /path/Script-ABC.sh (in target 'App' from project 'App')"
+const FAILED_SCRIPT_PATTERN = /^\s+PhaseScriptExecution (.+?) \/\S+\.sh(?: \(in target '(.+?)'.*\))?$/;
+
+/**
+ * Extracts compiler, linker and script-phase diagnostics from xcodebuild output.
+ * Duplicate entries (xcodebuild often repeats them) are reported once.
+ */
+export function parseBuildLog(text: string): BuildIssue[] {
+    const issues: BuildIssue[] = [];
+    const seen = new Set<string>();
+
+    const add = (issue: BuildIssue) => {
+        const key = [issue.severity, issue.file, issue.line, issue.column, issue.message].join('|');
+        if (!seen.has(key)) {
+            seen.add(key);
+            issues.push(issue);
+        }
+    };
+
+    const lines = text.split(/\r?\n/);
+    let inFailedCommands = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (line.startsWith('The following build commands failed:')) {
+            inFailedCommands = true;
+            continue;
+        }
+
+        if (inFailedCommands) {
+            if (!line.startsWith('\t') && !line.startsWith(' ')) {
+                inFailedCommands = false;
+            } else {
+                const scriptMatch = line.match(FAILED_SCRIPT_PATTERN);
+                if (scriptMatch) {
+                    const phase = scriptMatch[1].replace(/\\ /g, ' ');
+                    const target = scriptMatch[2] ? ` in target '${scriptMatch[2]}'` : '';
+                    add({ severity: 'error', message: `Script phase "${phase}"${target} failed` });
+                }
+                continue;
+            }
+        }
+
+        const located = line.match(LOCATED_PATTERN);
+        if (located) {
+            const file = located[1].startsWith('/') ? located[1] : undefined;
+            add({
+                severity: located[4] === 'fatal error' ? 'error' : located[4] as BuildIssueSeverity,
+                message: located[5].trim(),
+                file,
+                line: file ? parseInt(located[2], 10) : undefined,
+                column: file && located[3] ? parseInt(located[3], 10) : undefined
+            });
+            continue;
+        }
+
+        const undefinedSymbols = line.match(UNDEFINED_SYMBOLS_PATTERN);
+        if (undefinedSymbols) {
+            const symbols: string[] = [];
+            while (i + 1 < lines.length && /^\s/.test(lines[i + 1])) {
+                const symbol = lines[++i].match(UNDEFINED_SYMBOL_PATTERN);
+                if (symbol) {
+                    symbols.push(symbol[1]);
+                }
+            }
+            const suffix = symbols.length > 0 ? `: ${symbols.join(', ')}` : '';
+            add({
+                severity: 'error',
+                message: `Undefined symbols for architecture ${undefinedSymbols[1]}${suffix}`
+            });
+            continue;
+        }
+
+        const linker = line.match(LINKER_PATTERN);
+        if (linker) {
+            add({
+                severity: linker[1] === 'warning' ? 'warning' : 'error',
+                message: `ld: ${linker[2].trim()}`
+            });
+            continue;
+        }
+
+        const script = line.match(SCRIPT_PATTERN);
+        if (script) {
+            add({
+                severity: 'error',
+                message: script[3].trim(),
+                file: script[1],
+                line: parseInt(script[2], 10)
+            });
+            continue;
+        }
+
+        const generic = line.match(GENERIC_PATTERN);
+        if (generic) {
+            add({
+                severity: generic[1] as BuildIssueSeverity,
+                message: generic[2].trim()
+            });
+        }
+    }
+
+    return issues;
+}
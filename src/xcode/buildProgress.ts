@@ -0,0 +1,200 @@
+export type BuildStepKind = 'compile' | 'link' | 'sign' | 'script' | 'copy' | 'process' | 'other';
+
+export interface BuildStep {
+    kind: BuildStepKind;
+    /** xcodebuild's name for the step, e.g. CompileSwift or PhaseScriptExecution */
+    action: string;
+    target?: string;
+    project?: string;
+}
+
+export interface BuildProgressSnapshot {
+    /** One-based index of the target being built, counting targets as they start */
+    targetIndex: number;
+    targetCount?: number;
+    target?: string;
+    action?: string;
+    filesCompiled: number;
+    filesTotal?: number;
+}
+
+/**
+ * Durations and compile count of recent successful builds of one scheme.
+ */
+export interface BuildRecord {
+    durations: number[];
+    files: number;
+}
+
+const STEP_KINDS: { [action: string]: BuildStepKind } = {
+    CompileSwift: 'compile',
+    SwiftCompile: 'compile',
+    CompileC: 'compile',
+    CompileAssetCatalog: 'process',
+    CompileStoryboard: 'process',
+    CompileXIB: 'process',
+    LinkStoryboards: 'process',
+    Ld: 'link',
+    Libtool: 'link',
+    CodeSign: 'sign',
+    PhaseScriptExecution: 'script',
+    CpResource: 'copy',
+    CopySwiftLibs: 'copy',
+    Copy: 'copy',
+    Ditto: 'copy',
+    PBXCp: 'copy',
+    ProcessInfoPlistFile: 'process',
+    ProcessProductPackaging: 'process',
+    ProcessPCH: 'process'
+};
+
+// Xcode 14+ ends every step line with its target
+const STEP_LINE = /^([A-Z][A-Za-z]+) .*\(in target '([^']+)' from project '([^']+)'\)\s*$/;
+// Listed under "Target dependency graph (N targets)"
+const GRAPH_HEADER = /^Target dependency graph \((\d+) targets?\)/;
+const GRAPH_TARGET = /^\s+Target '([^']+)' in project '([^']+)'/;
+
+const RECENT_BUILDS = 5;
+
+export function parseBuildStep(line: string): BuildStep | undefined {
+    const match = line.match(STEP_LINE);
+    if (!match) {
+        return undefined;
+    }
+    return {
+        kind: STEP_KINDS[match[1]] ?? 'other',
+        action: match[1],
+        target: match[2],
+        project: match[3]
+    };
+}
+
+/**
+ * Follows xcodebuild output and tracks which target is building and how many
+ * source files were compiled. `filesTotal` comes from the previous build of the scheme.
+ */
+export class BuildProgress {
+    private buffer = '';
+    private targetCount: number | undefined;
+    private startedTargets: string[] = [];
+    private current: BuildStep | undefined;
+    private filesCompiled = 0;
+
+    constructor(private readonly filesTotal?: number) {}
+
+    /**
+     * Returns true when the snapshot changed.
+     */
+    feed(chunk: string): boolean {
+        this.buffer += chunk;
+        const lines = this.buffer.split(/\r?\n/);
+        this.buffer = lines.pop() ?? '';
+
+        let changed = false;
+        for (const line of lines) {
+            changed = this.parseLine(line) || changed;
+        }
+        return changed;
+    }
+
+    private parseLine(line: string): boolean {
+        const graph = line.match(GRAPH_HEADER);
+        if (graph) {
+            this.targetCount = parseInt(graph[1], 10);
+            return true;
+        }
+        // Dependency graph entries are indented and never mistaken for steps
+        if (GRAPH_TARGET.test(line)) {
+            return false;
+        }
+
+        const step = parseBuildStep(line);
+        if (!step) {
+            return false;
+        }
+
+        if (step.target && !this.startedTargets.includes(step.target)) {
+            this.startedTargets.push(step.target);
+        }
+        if (step.kind === 'compile') {
+            this.filesCompiled++;
+        }
+        this.current = step;
+        return true;
+    }
+
+    get snapshot(): BuildProgressSnapshot {
+        const target = this.current?.target;
+        return {
+            targetIndex: target ? this.startedTargets.indexOf(target) + 1 : 0,
+            targetCount: this.targetCount,
+            target,
+            action: this.current?.action,
+            filesCompiled: this.filesCompiled,
+            filesTotal: this.filesTotal && this.filesTotal >= this.filesCompiled ? this.filesTotal : undefined
+        };
+    }
+}
+
+/**
+ * Keeps the last few successful build durations. Incremental builds compile only
+ * some files, so the file total is the largest count seen, i.e. a full build.
+ */
+export function updateBuildRecord(record: BuildRecord | undefined, duration: number, files: number): BuildRecord {
+    return {
+        durations: [...(record?.durations ?? []), duration].slice(-RECENT_BUILDS),
+        files: Math.max(record?.files ?? 0, files)
+    };
+}
+
+/**
+ * Time left based on the median of recent builds, refined by compile progress when known.
+ */
+export function estimateRemaining(
+    record: BuildRecord | undefined,
+    elapsed: number,
+    snapshot: BuildProgressSnapshot
+): number | undefined {
+    if (!record || record.durations.length === 0) {
+        return undefined;
+    }
+
+    const sorted = [...record.durations].sort((a, b) => a - b);
+    const expected = sorted[Math.floor(sorted.length / 2)];
+
+    // Incremental builds compile fewer files, so trust the file ratio once it has moved
+    if (snapshot.filesTotal && snapshot.filesCompiled > 0 && snapshot.filesCompiled < snapshot.filesTotal) {
+        const fraction = snapshot.filesCompiled / snapshot.filesTotal;
+        return Math.max(0, Math.min(expected - elapsed, elapsed / fraction - elapsed));
+    }
+
+    return Math.max(0, expected - elapsed);
+}
+
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+/**
+ * e.g. "Target 3/7 · 142/380 files · ~40s left"
+ */
+export function formatBuildProgress(snapshot: BuildProgressSnapshot, remaining?: number): string {
+    const parts: string[] = [];
+
+    if (snapshot.targetIndex > 0) {
+        parts.push(snapshot.targetCount
+            ? `Target ${Math.min(snapshot.targetIndex, snapshot.targetCount)}/${snapshot.targetCount}`
+            : `Target ${snapshot.targetIndex}`);
+    }
+    if (snapshot.filesCompiled > 0) {
+        parts.push(snapshot.filesTotal
+            ? `${snapshot.filesCompiled}/${snapshot.filesTotal} files`
+            : `${snapshot.filesCompiled} files`);
+    }
+    if (remaining !== undefined) {
+        parts.push(remaining > 0 ? `~${formatDuration(remaining)} left` : 'almost done');
+    }
+
+    return parts.length > 0 ? parts.join(' · ') : 'Building...';
+}
@@ -0,0 +1,118 @@
+import * as path from 'path';
+import { XcodeProject, projectArgs, projectDirectory } from './project';
+import { run } from '../process/runner';
+
+export interface BuildSettingsQuery {
+    project: XcodeProject;
+    scheme: string;
+    configuration: string;
+    destination: string;
+    derivedDataPath?: string;
+}
+
+// One entry of `xcodebuild -showBuildSettings -json`
+export interface TargetBuildSettings {
+    action: string;
+    target: string;
+    buildSettings: { [key: string]: string };
+}
+
+export interface AppProduct {
+    target: string;
+    productName: string;
+    targetBuildDir: string;
+    appPath: string;
+    bundleId?: string;
+    executablePath?: string;
+}
+
+const cache = new Map<string, Promise<TargetBuildSettings[]>>();
+
+function cacheKey(query: BuildSettingsQuery): string {
+    return JSON.stringify([
+        query.project.path,
+        query.scheme,
+        query.configuration,
+        query.destination,
+        query.derivedDataPath || ''
+    ]);
+}
+
+async function loadBuildSettings(query: BuildSettingsQuery): Promise<TargetBuildSettings[]> {
+    const args = [
+        ...projectArgs(query.project),
+        '-scheme', query.scheme,
+        '-configuration', query.configuration,
+        '-destination', query.destination,
+        ...(query.derivedDataPath ? ['-derivedDataPath', query.derivedDataPath] : []),
+        '-showBuildSettings', '-json'
+    ];
+
+    const { stdout } = await run('xcodebuild', args, {
+        cwd: projectDirectory(query.project),
+        timeout: 60000,
+        maxBuffer: 32 * 1024 * 1024
+    });
+
+    return JSON.parse(stdout);
+}
+
+/**
+ * Returns the build settings of every target built by the scheme.
+ * Results are cached per project, scheme, configuration and destination.
+ */
+export function getBuildSettings(query: BuildSettingsQuery): Promise<TargetBuildSettings[]> {
+    const key = cacheKey(query);
+
+    let settings = cache.get(key);
+    if (!settings) {
+        settings = loadBuildSettings(query);
+        // Don't keep failures around, the next call should retry
+        settings.catch(() => cache.delete(key));
+        cache.set(key, settings);
+    }
+
+    return settings;
+}
+
+export function clearBuildSettingsCache() {
+    cache.clear();
+}
+
+/**
+ * Picks the application target out of the scheme's build settings,
+ * preferring a target named like the scheme.
+ */
+export function selectAppProduct(settings: TargetBuildSettings[], scheme: string): AppProduct | undefined {
+    const apps = settings.filter(s => s.buildSettings.WRAPPER_EXTENSION === 'app');
+    const app = apps.find(s => s.target === scheme)
+        || apps.find(s => s.buildSettings.PRODUCT_TYPE === 'com.apple.product-type.application')
+        || apps[0];
+
+    if (!app) {
+        return undefined;
+    }
+
+    const { TARGET_BUILD_DIR, FULL_PRODUCT_NAME, PRODUCT_BUNDLE_IDENTIFIER, EXECUTABLE_PATH } = app.buildSettings;
+    if (!TARGET_BUILD_DIR || !FULL_PRODUCT_NAME) {
+        return undefined;
+    }
+
+    return {
+        target: app.target,
+        productName: FULL_PRODUCT_NAME,
+        targetBuildDir: TARGET_BUILD_DIR,
+        appPath: path.join(TARGET_BUILD_DIR, FULL_PRODUCT_NAME),
+        bundleId: PRODUCT_BUNDLE_IDENTIFIER || undefined,
+        executablePath: EXECUTABLE_PATH ? path.join(TARGET_BUILD_DIR, EXECUTABLE_PATH) : undefined
+    };
+}
+
+export async function resolveAppProduct(query: BuildSettingsQuery): Promise<AppProduct | undefined> {
+    try {
+        return selectAppProduct(await getBuildSettings(query), query.scheme);
+    } catch (error) {
+        console.error('Failed to read build settings:', error);
+        return undefined;
+    }
+}
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StepTiming, TargetTiming } from './xcresult';
+
+/**
+ * One line of `-showBuildTimingSummary`, e.g. "SwiftCompile (42 tasks) | 85.432 seconds".
+ */
+export interface TaskTiming {
+    name: string;
+    tasks: number;
+    duration: number; // milliseconds
+}
+
+export interface BuildTimingEntry {
+    /** ISO timestamp of when the build finished */
+    timestamp: string;
+    scheme: string;
+    configuration: string;
+    destination: string;
+    clean: boolean;
+    success: boolean;
+    duration: number; // milliseconds
+    targets: TargetTiming[];
+    tasks: TaskTiming[];
+    /** The slowest steps only; full logs stay in the result bundle */
+    slowestSteps: StepTiming[];
+}
+
+const TIMING_LINE = /^(\S+) \((\d+) tasks?\) \| ([\d.]+) seconds$/;
+const KEPT_STEPS = 20;
+const MAX_ENTRIES = 500;
+
+/**
+ * Parses the "Build Timing Summary" that xcodebuild prints at the end of the
+ * build output, slowest task type first.
+ */
+export function parseBuildTimingSummary(output: string): TaskTiming[] {
+    const start = output.lastIndexOf('Build Timing Summary');
+    if (start === -1) {
+        return [];
+    }
+
+    const timings: TaskTiming[] = [];
+    for (const line of output.slice(start).split(/\r?\n/)) {
+        const match = line.trim().match(TIMING_LINE);
+        if (match) {
+            timings.push({
+                name: match[1],
+                tasks: parseInt(match[2], 10),
+                duration: Math.round(parseFloat(match[3]) * 1000)
+            });
+        }
+    }
+    return timings.sort((a, b) => b.duration - a.duration);
+}
+
+export function slowestSteps(steps: StepTiming[], count = KEPT_STEPS): StepTiming[] {
+    return [...steps].sort((a, b) => b.duration - a.duration).slice(0, count);
+}
+
+function csvField(value: string | number | boolean): string {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per build. Target timings are flattened into a "Target=seconds; ..." column.
+ */
+export function toCsv(entries: BuildTimingEntry[]): string {
+    const header = ['timestamp', 'scheme', 'configuration', 'destination', 'clean', 'success', 'duration_s', 'targets'];
+    const rows = entries.map(entry => [
+        entry.timestamp,
+        entry.scheme,
+        entry.configuration,
+        entry.destination,
+        entry.clean,
+        entry.success,
+        (entry.duration / 1000).toFixed(1),
+        entry.targets.map(t => `${t.name}=${(t.duration / 1000).toFixed(1)}`).join('; ')
+    ].map(csvField).join(','));
+
+    return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Build timings kept as a JSON file, oldest first.
+ */
+export class BuildTimingHistory {
+    constructor(
+        private readonly filePath: string,
+        private readonly maxEntries = MAX_ENTRIES
+    ) {}
+
+    async list(): Promise<BuildTimingEntry[]> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+        } catch {
+            return [];
+        }
+    }
+
+    async add(entry: BuildTimingEntry) {
+        const entries = [...await this.list(), entry].slice(-this.maxEntries);
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(this.filePath, JSON.stringify(entries));
+    }
+
+    async clear() {
+        await fs.promises.rm(this.filePath, { force: true });
+    }
+}
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { XcodeProject, projectArgs, projectDirectory } from './project';
+import { parseWorkspaceData } from './projectFile';
+import { spawnProcess } from '../process/runner';
+
+export type DependencyManager = 'cocoapods' | 'spm';
+
+export interface DependencyIssue {
+    manager: DependencyManager;
+    reason: string;
+}
+
+async function readFile(file: string): Promise<string | undefined> {
+    try {
+        return await fs.promises.readFile(file, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * The SHA-1 of the Podfile that `pod install` recorded in Podfile.lock.
+ */
+export function parsePodfileChecksum(lock: string): string | undefined {
+    return lock.match(/^PODFILE CHECKSUM:\s*([0-9a-f]{40})\s*$/m)?.[1];
+}
+
+/**
+ * Compares the Podfile, Podfile.lock and Pods/Manifest.lock the way
+ * CocoaPods' own "sandbox is not in sync" build phase does.
+ */
+export async function checkCocoaPods(directory: string): Promise<DependencyIssue | undefined> {
+    const podfile = await readFile(path.join(directory, 'Podfile'));
+    if (podfile === undefined) {
+        return undefined;
+    }
+
+    const lock = await readFile(path.join(directory, 'Podfile.lock'));
+    const manifest = await readFile(path.join(directory, 'Pods', 'Manifest.lock'));
+
+    // Podfile.lock is only rewritten when it changes, so its mtime says nothing
+    const checksum = lock && parsePodfileChecksum(lock);
+
+    let reason: string | undefined;
+    if (lock === undefined) {
+        reason = 'Podfile.lock is missing';
+    } else if (manifest === undefined) {
+        reason = 'Pods are not installed';
+    } else if (lock !== manifest) {
+        reason = 'Pods are out of date with Podfile.lock';
+    } else if (checksum && checksum !== crypto.createHash('sha1').update(podfile).digest('hex')) {
+        reason = 'Podfile changed since the last pod install';
+    }
+
+    return reason ? { manager: 'cocoapods', reason } : undefined;
+}
+
+function normalizeURL(url: string): string {
+    return url.trim().toLowerCase().replace(/\/+$/, '').replace(/\.git$/, '');
+}
+
+/**
+ * Repository URLs pinned in a Package.resolved, any format version.
+ */
+export function parsePinnedPackages(resolved: string): string[] {
+    try {
+        const json = JSON.parse(resolved);
+        // Version 1 nests the pins under "object" and calls the URL "repositoryURL"
+        const pins: any[] = json.pins ?? json.object?.pins ?? [];
+        return pins.map(pin => pin.location ?? pin.repositoryURL).filter(Boolean).map(normalizeURL);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Remote package URLs referenced by a project.pbxproj.
+ */
+export function parseProjectPackageURLs(pbxproj: string): string[] {
+    return [...pbxproj.matchAll(/repositoryURL = "?([^";]+)"?;/g)].map(m => normalizeURL(m[1]));
+}
+
+/**
+ * Remote package URLs declared in a Package.swift. Local path dependencies aren't pinned.
+ */
+export function parseManifestPackageURLs(manifest: string): string[] {
+    return [...manifest.matchAll(/\.package\s*\(\s*(?:name:\s*"[^"]*"\s*,\s*)?url:\s*"([^"]+)"/g)].map(m => normalizeURL(m[1]));
+}
+
+function packageResolvedPath(project: XcodeProject): string {
+    switch (project.type) {
+        case 'workspace':
+            return path.join(project.path, 'xcshareddata', 'swiftpm', 'Package.resolved');
+        case 'project':
+            return path.join(project.path, 'project.xcworkspace', 'xcshareddata', 'swiftpm', 'Package.resolved');
+        case 'package':
+            return path.join(projectDirectory(project), 'Package.resolved');
+    }
+}
+
+async function requiredPackageURLs(project: XcodeProject): Promise<string[]> {
+    if (project.type === 'package') {
+        return parseManifestPackageURLs(await readFile(project.path) ?? '');
+    }
+
+    const projects = project.type === 'workspace'
+        ? parseWorkspaceData(await readFile(path.join(project.path, 'contents.xcworkspacedata')) ?? '', project.path)
+        : [project.path];
+
+    const urls: string[] = [];
+    for (const projectPath of projects) {
+        urls.push(...parseProjectPackageURLs(await readFile(path.join(projectPath, 'project.pbxproj')) ?? ''));
+    }
+    return urls;
+}
+
+/**
+ * Reports Swift packages without a pin in Package.resolved.
+ */
+export async function checkSwiftPackages(project: XcodeProject): Promise<DependencyIssue | undefined> {
+    const required = [...new Set(await requiredPackageURLs(project))];
+    if (required.length === 0) {
+        return undefined;
+    }
+
+    const resolved = await readFile(packageResolvedPath(project));
+    if (resolved === undefined) {
+        return { manager: 'spm', reason: 'Package.resolved is missing' };
+    }
+
+    const pinned = new Set(parsePinnedPackages(resolved));
+    const missing = required.filter(url => !pinned.has(url));
+    if (missing.length > 0) {
+        const names = missing.map(url => path.basename(url)).join(', ');
+        return { manager: 'spm', reason: `Swift packages not resolved: ${names}` };
+    }
+    return undefined;
+}
+
+export async function checkDependencies(project: XcodeProject): Promise<DependencyIssue[]> {
+    const issues = await Promise.all([
+        project.type === 'package' ? undefined : checkCocoaPods(projectDirectory(project)),
+        checkSwiftPackages(project)
+    ]);
+    return issues.filter((issue): issue is DependencyIssue => issue !== undefined);
+}
+
+export function resolveCommand(manager: DependencyManager, project: XcodeProject): { command: string; args: string[] } {
+    return manager === 'cocoapods'
+        ? { command: 'pod', args: ['install'] }
+        : { command: 'xcodebuild', args: ['-resolvePackageDependencies', ...projectArgs(project)] };
+}
+
+const INSTALL_HINTS: { [manager in DependencyManager]: string } = {
+    cocoapods: 'pod not found. Install CocoaPods with `brew install cocoapods`.',
+    spm: 'xcodebuild not found. Make sure Xcode is installed.'
+};
+
+/**
+ * Runs `pod install` or `xcodebuild -resolvePackageDependencies` in the project
+ * directory, streaming its output.
+ */
+export function resolveDependencies(
+    manager: DependencyManager,
+    project: XcodeProject,
+    outputChannel: vscode.OutputChannel
+): Promise<void> {
+    const { command, args } = resolveCommand(manager, project);
+    const cwd = projectDirectory(project);
+
+    outputChannel.show(true);
+    outputChannel.appendLine(`$ ${command} ${args.join(' ')}  (in ${cwd})`);
+
+    return new Promise((resolve, reject) => {
+        const process = spawnProcess(command, args, { cwd });
+
+        process.stdout?.on('data', (data: Buffer) => outputChannel.append(data.toString()));
+        process.stderr?.on('data', (data: Buffer) => outputChannel.append(data.toString()));
+
+        process.on('close', (code) => {
+            if (code === 0) {
+                outputChannel.appendLine('✓ Dependencies resolved\n');
+                resolve();
+            } else {
+                reject(new Error(`${command} exited with code ${code}. See the SimBuild output for details.`));
+            }
+        });
+
+        process.on('error', (err: NodeJS.ErrnoException) => {
+            reject(err.code === 'ENOENT' ? new Error(INSTALL_HINTS[manager]) : err);
+        });
+    });
+}
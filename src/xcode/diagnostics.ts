@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import { BuildIssue } from './buildLog';
+
+function toSeverity(issue: BuildIssue): vscode.DiagnosticSeverity {
+    switch (issue.severity) {
+        case 'error':
+            return vscode.DiagnosticSeverity.Error;
+        case 'warning':
+            return vscode.DiagnosticSeverity.Warning;
+        default:
+            return vscode.DiagnosticSeverity.Information;
+    }
+}
+
+/**
+ * Publishes build issues to the Problems panel. Issues without a source location
+ * (linker errors, failed script phases) are attached to the project itself.
+ */
+export function publishBuildDiagnostics(
+    collection: vscode.DiagnosticCollection,
+    issues: BuildIssue[],
+    projectPath: string
+) {
+    collection.clear();
+
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+
+    for (const issue of issues) {
+        // Xcode locations are 1-based
+        const line = Math.max((issue.line ?? 1) - 1, 0);
+        const column = Math.max((issue.column ?? 1) - 1, 0);
+        const range = issue.column !== undefined
+            ? new vscode.Range(line, column, line, column + 1)
+            : new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+
+        const diagnostic = new vscode.Diagnostic(range, issue.message, toSeverity(issue));
+        diagnostic.source = 'xcodebuild';
+
+        const file = issue.file ?? projectPath;
+        if (!byFile.has(file)) {
+            byFile.set(file, []);
+        }
+        byFile.get(file)!.push(diagnostic);
+    }
+
+    for (const [file, diagnostics] of byFile) {
+        collection.set(vscode.Uri.file(file), diagnostics);
+    }
+}
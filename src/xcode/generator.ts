@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { XcodeProject } from './project';
+import { spawnProcess } from '../process/runner';
+
+export type GeneratorKind = 'xcodegen' | 'tuist';
+
+export interface GeneratorManifest {
+    kind: GeneratorKind;
+    /** project.yml for XcodeGen, Workspace.swift or Project.swift for Tuist */
+    path: string;
+    directory: string;
+}
+
+const MANIFEST_GLOB = '**/{project.yml,Project.swift,Workspace.swift}';
+const EXCLUDE_GLOB = '**/{Pods,DerivedData,.build,build,node_modules,Tuist/Dependencies}/**';
+
+const GENERATOR_NAMES: { [kind in GeneratorKind]: string } = {
+    xcodegen: 'XcodeGen',
+    tuist: 'Tuist'
+};
+
+export function generatorName(kind: GeneratorKind): string {
+    return GENERATOR_NAMES[kind];
+}
+
+export function generatorCommand(manifest: GeneratorManifest): { command: string; args: string[] } {
+    return manifest.kind === 'xcodegen'
+        ? { command: 'xcodegen', args: ['generate', '--spec', path.basename(manifest.path)] }
+        : { command: 'tuist', args: ['generate', '--no-open'] };
+}
+
+/**
+ * Picks the manifests to generate from. A Tuist Workspace.swift generates every
+ * Project.swift below it, so those aren't listed on their own.
+ */
+export function selectManifests(paths: string[]): GeneratorManifest[] {
+    const workspaceDirs = paths
+        .filter(p => path.basename(p) === 'Workspace.swift')
+        .map(p => path.dirname(p));
+
+    return paths
+        .filter(p => path.basename(p) !== 'Project.swift' || !workspaceDirs.some(dir =>
+            path.dirname(p) === dir || path.dirname(p).startsWith(dir + path.sep)))
+        .map(p => ({
+            kind: path.basename(p) === 'project.yml' ? 'xcodegen' as const : 'tuist' as const,
+            path: p,
+            directory: path.dirname(p)
+        }))
+        .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Whether a Project.swift or Workspace.swift is a Tuist manifest rather than
+ * an ordinary source file that happens to have the name.
+ */
+export function isTuistManifest(source: string): boolean {
+    return /^\s*(?:@\w+\s+)*import\s+ProjectDescription\b/m.test(source);
+}
+
+export async function findGeneratorManifests(): Promise<GeneratorManifest[]> {
+    const files = await vscode.workspace.findFiles(MANIFEST_GLOB, EXCLUDE_GLOB);
+    const manifests: string[] = [];
+    for (const file of files) {
+        if (path.basename(file.fsPath) === 'project.yml' || isTuistManifest(await readSource(file.fsPath))) {
+            manifests.push(file.fsPath);
+        }
+    }
+    return selectManifests(manifests);
+}
+
+async function readSource(file: string): Promise<string> {
+    try {
+        return await fs.promises.readFile(file, 'utf8');
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * The project a manifest generates: a workspace or project next to it.
+ */
+export function findGeneratedProject(manifest: GeneratorManifest, projects: XcodeProject[]): XcodeProject | undefined {
+    const candidates = projects.filter(p => p.type !== 'package' && path.dirname(p.path) === manifest.directory);
+    return candidates.find(p => p.type === 'workspace') ?? candidates[0];
+}
+
+function modifiedTime(file: string): number | undefined {
+    try {
+        return fs.statSync(file).mtimeMs;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * True when the project is missing or older than its manifest.
+ */
+export function isGeneratedProjectStale(manifest: GeneratorManifest, project: XcodeProject | undefined): boolean {
+    if (!project) {
+        return true;
+    }
+
+    const manifestTime = modifiedTime(manifest.path);
+    // The bundle directory's own time doesn't change when its contents are rewritten
+    const projectTime = modifiedTime(path.join(
+        project.path,
+        project.type === 'workspace' ? 'contents.xcworkspacedata' : 'project.pbxproj'
+    ));
+
+    return manifestTime !== undefined && (projectTime === undefined || manifestTime > projectTime);
+}
+
+/**
+ * Runs XcodeGen or Tuist in the manifest's directory, streaming its output.
+ */
+export function generateProject(manifest: GeneratorManifest, outputChannel: vscode.OutputChannel): Promise<void> {
+    const { command, args } = generatorCommand(manifest);
+    const name = generatorName(manifest.kind);
+
+    outputChannel.show(true);
+    outputChannel.appendLine(`$ ${command} ${args.join(' ')}  (in ${manifest.directory})`);
+
+    return new Promise((resolve, reject) => {
+        const process = spawnProcess(command, args, { cwd: manifest.directory });
+
+        process.stdout?.on('data', (data: Buffer) => outputChannel.append(data.toString()));
+        process.stderr?.on('data', (data: Buffer) => outputChannel.append(data.toString()));
+
+        process.on('close', (code) => {
+            if (code === 0) {
+                outputChannel.appendLine(`✓ ${name} generated the project\n`);
+                resolve();
+            } else {
+                reject(new Error(`${name} exited with code ${code}`));
+            }
+        });
+
+        process.on('error', (err: NodeJS.ErrnoException) => {
+            reject(err.code === 'ENOENT'
+                ? new Error(`${command} not found. Install it with \`brew install ${command}\`.`)
+                : err);
+        });
+    });
+}
@@ -0,0 +1,185 @@
+export type PlistValue = string | PlistValue[] | PlistDict;
+
+export interface PlistDict {
+    [key: string]: PlistValue;
+}
+
+// Characters allowed in unquoted strings, e.g. `sourcecode.swift` or `$(SRCROOT)/App`
+const UNQUOTED = /[A-Za-z0-9_$+/:.\-]/;
+
+const ESCAPES: { [char: string]: string } = {
+    n: '\n',
+    t: '\t',
+    r: '\r',
+    a: '\x07',
+    b: '\b',
+    f: '\f',
+    v: '\v'
+};
+
+/**
+ * Parses an old-style (OpenStep) property list, the format of project.pbxproj.
+ * Data values (`<0fbd7772>`) are returned as their hex string.
+ */
+export function parsePlist(text: string): PlistValue {
+    const parser = new PlistParser(text);
+    const value = parser.value();
+    parser.end();
+    return value;
+}
+
+export function isPlistDict(value: PlistValue | undefined): value is PlistDict {
+    return typeof value === 'object' && !Array.isArray(value);
+}
+
+class PlistParser {
+    private pos = 0;
+
+    constructor(private readonly text: string) {}
+
+    value(): PlistValue {
+        this.skip();
+        const char = this.text[this.pos];
+        if (char === '{') {
+            return this.dict();
+        }
+        if (char === '(') {
+            return this.array();
+        }
+        if (char === '<') {
+            return this.data();
+        }
+        return this.string();
+    }
+
+    end() {
+        this.skip();
+        if (this.pos < this.text.length) {
+            this.fail(`unexpected "${this.text[this.pos]}"`);
+        }
+    }
+
+    private dict(): PlistDict {
+        const dict: PlistDict = {};
+        this.pos++;
+
+        for (;;) {
+            this.skip();
+            if (this.text[this.pos] === '}') {
+                this.pos++;
+                return dict;
+            }
+            const key = this.string();
+            this.expect('=');
+            dict[key] = this.value();
+            this.expect(';');
+        }
+    }
+
+    private array(): PlistValue[] {
+        const array: PlistValue[] = [];
+        this.pos++;
+
+        for (;;) {
+            this.skip();
+            if (this.text[this.pos] === ')') {
+                this.pos++;
+                return array;
+            }
+            array.push(this.value());
+            this.skip();
+            // The last element may or may not have a trailing comma
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+            } else if (this.text[this.pos] !== ')') {
+                this.fail('expected "," or ")"');
+            }
+        }
+    }
+
+    private data(): string {
+        const end = this.text.indexOf('>', this.pos);
+        if (end === -1) {
+            this.fail('unterminated data');
+        }
+        const hex = this.text.slice(this.pos + 1, end).replace(/\s/g, '');
+        this.pos = end + 1;
+        return hex;
+    }
+
+    private string(): string {
+        this.skip();
+        if (this.text[this.pos] === '"') {
+            return this.quoted();
+        }
+
+        const start = this.pos;
+        while (this.pos < this.text.length && UNQUOTED.test(this.text[this.pos])) {
+            this.pos++;
+        }
+        if (this.pos === start) {
+            this.fail(this.pos < this.text.length ? `unexpected "${this.text[this.pos]}"` : 'unexpected end of input');
+        }
+        return this.text.slice(start, this.pos);
+    }
+
+    private quoted(): string {
+        let result = '';
+        this.pos++;
+
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos++];
+            if (char === '"') {
+                return result;
+            }
+            if (char !== '\\') {
+                result += char;
+                continue;
+            }
+
+            const escaped = this.text[this.pos++];
+            if (escaped === 'U') {
+                result += String.fromCharCode(parseInt(this.text.slice(this.pos, this.pos + 4), 16));
+                this.pos += 4;
+            } else {
+                result += ESCAPES[escaped] ?? escaped;
+            }
+        }
+
+        return this.fail('unterminated string');
+    }
+
+    private expect(char: string) {
+        this.skip();
+        if (this.text[this.pos] !== char) {
+            this.fail(`expected "${char}"`);
+        }
+        this.pos++;
+    }
+
+    // Whitespace and both comment styles
+    private skip() {
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos];
+            if (/\s/.test(char)) {
+                this.pos++;
+            } else if (this.text.startsWith('//', this.pos)) {
+                const end = this.text.indexOf('\n', this.pos);
+                this.pos = end === -1 ? this.text.length : end + 1;
+            } else if (this.text.startsWith('/*', this.pos)) {
+                const end = this.text.indexOf('*/', this.pos + 2);
+                if (end === -1) {
+                    this.fail('unterminated comment');
+                }
+                this.pos = end + 2;
+            } else {
+                return;
+            }
+        }
+    }
+
+    private fail(message: string): never {
+        const line = this.text.slice(0, this.pos).split('\n').length;
+        throw new Error(`Invalid property list at line ${line}: ${message}`);
+    }
+}
@@ -1,22 +1,63 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { exec } from 'child_process';
 import { promisify } from 'util';
+import { BuildSettingsQuery, resolveAppProduct } from './buildSettings';
+import { parseWorkspaceData, readProjectInfo, schemeBundleIdentifier, schemePlatforms } from './projectFile';
+import { run } from '../process/runner';
 
-const execAsync = promisify(exec);
 const readdirAsync = promisify(fs.readdir);
+const readFileAsync = promisify(fs.readFile);
 
 export interface XcodeProject {
+    /** The .xcworkspace or .xcodeproj bundle, or the Package.swift file of a Swift package */
     path: string;
     name: string;
-    type: 'workspace' | 'project';
+    type: 'workspace' | 'project' | 'package';
 }
 
 export interface Scheme {
     name: string;
 }
 
+// Output of `swift package describe --type json`, only the fields we use
+interface PackageDescription {
+    name: string;
+    products?: { name: string; type?: { [kind: string]: unknown } }[];
+}
+
+/**
+ * xcodebuild arguments selecting the project. Swift packages have none:
+ * xcodebuild picks up Package.swift from the working directory.
+ */
+export function projectArgs(project: XcodeProject): string[] {
+    switch (project.type) {
+        case 'workspace':
+            return ['-workspace', project.path];
+        case 'project':
+            return ['-project', project.path];
+        case 'package':
+            return [];
+    }
+}
+
+/**
+ * Working directory for xcodebuild and friends.
+ */
+export function projectDirectory(project: XcodeProject): string {
+    return path.dirname(project.path);
+}
+
+/**
+ * Schemes Xcode generates for a package: one per product, plus
+ * "<Package>-Package" building everything when there are several.
+ */
+export function parsePackageSchemes(description: PackageDescription): Scheme[] {
+    const products = (description.products || []).map(p => p.name);
+    const names = products.length > 1 ? [...products, `${description.name}-Package`] : products;
+    return (names.length > 0 ? names : [description.name]).map(name => ({ name }));
+}
+
 async function findXcodeProjectsInDir(dir: string): Promise<XcodeProject[]> {
     const projects: XcodeProject[] = [];
 
@@ -24,6 +65,15 @@ async function findXcodeProjectsInDir(dir: string): Promise<XcodeProject[]> {
         const entries = await readdirAsync(dir, { withFileTypes: true });
 
         for (const entry of entries) {
+            if (entry.isFile() && entry.name === 'Package.swift') {
+                projects.push({
+                    path: path.join(dir, entry.name),
+                    name: path.basename(dir),
+                    type: 'package'
+                });
+                continue;
+            }
+
             if (!entry.isDirectory()) continue;
 
             const fullPath = path.join(dir, entry.name);
@@ -95,45 +145,143 @@ export async function findXcodeProjects(): Promise<XcodeProject[]> {
 }
 
 export async function getSchemes(project: XcodeProject): Promise<Scheme[]> {
-    const flag = project.type === 'workspace' ? '-workspace' : '-project';
+    // Reading the scheme files is much faster than xcodebuild and works without Xcode
+    const info = await readProjectInfo(project);
+    if (info && info.schemes.length > 0) {
+        return info.schemes.map(s => ({ name: s.name }));
+    }
 
     try {
-        const { stdout } = await execAsync(
-            `xcodebuild ${flag} "${project.path}" -list -json`,
-            { timeout: 30000 }
+        const { stdout } = await run(
+            'xcodebuild',
+            [...projectArgs(project), '-list', '-json'],
+            { cwd: projectDirectory(project), timeout: 30000 }
         );
 
+        // xcodebuild lists packages as workspaces
         const data = JSON.parse(stdout);
-        const schemeNames: string[] = project.type === 'workspace'
-            ? data.workspace?.schemes || []
-            : data.project?.schemes || [];
+        const schemeNames: string[] = project.type === 'project'
+            ? data.project?.schemes || []
+            : data.workspace?.schemes || [];
 
-        return schemeNames.map(name => ({ name }));
+        if (schemeNames.length > 0 || project.type !== 'package') {
+            return schemeNames.map(name => ({ name }));
+        }
     } catch (error) {
         console.error('Failed to get schemes:', error);
+        if (project.type !== 'package') {
+            return [];
+        }
+    }
+
+    return getPackageSchemes(project);
+}
+
+async function getPackageSchemes(project: XcodeProject): Promise<Scheme[]> {
+    try {
+        const { stdout } = await run(
+            'swift',
+            ['package', 'describe', '--type', 'json'],
+            { cwd: projectDirectory(project), timeout: 60000 }
+        );
+        return parsePackageSchemes(JSON.parse(stdout));
+    } catch (error) {
+        console.error('Failed to describe package:', error);
+        return [];
+    }
+}
+
+// Projects referenced by a workspace, excluding the generated CocoaPods project
+async function getWorkspaceProjects(workspace: XcodeProject): Promise<string[]> {
+    try {
+        const contents = await readFileAsync(
+            path.join(workspace.path, 'contents.xcworkspacedata'),
+            'utf8'
+        );
+
+        return parseWorkspaceData(contents, workspace.path).filter(p => path.basename(p) !== 'Pods.xcodeproj');
+    } catch (error) {
+        console.error('Failed to read workspace contents:', error);
         return [];
     }
 }
 
+export async function getConfigurations(project: XcodeProject): Promise<string[]> {
+    // Swift packages always have exactly these two
+    if (project.type === 'package') {
+        return ['Debug', 'Release'];
+    }
+
+    const info = await readProjectInfo(project);
+    if (info && info.configurations.length > 0) {
+        return info.configurations;
+    }
+
+    // `xcodebuild -list` only reports configurations for projects, not workspaces
+    const projectPaths = project.type === 'workspace'
+        ? await getWorkspaceProjects(project)
+        : [project.path];
+
+    const configurations = new Set<string>();
+
+    for (const projectPath of projectPaths) {
+        try {
+            const { stdout } = await run(
+                'xcodebuild',
+                ['-project', projectPath, '-list', '-json'],
+                { timeout: 30000 }
+            );
+
+            const data = JSON.parse(stdout);
+            for (const name of data.project?.configurations || []) {
+                configurations.add(name);
+            }
+        } catch (error) {
+            console.error('Failed to get configurations:', error);
+        }
+    }
+
+    return [...configurations];
+}
+
 export async function getBundleIdentifier(
-    project: XcodeProject,
-    scheme: string,
-    derivedDataPath: string
+    query: BuildSettingsQuery,
+    appPath?: string
 ): Promise<string | undefined> {
-    // Look for Info.plist in the build products
-    const appPath = path.join(
-        derivedDataPath,
-        'Build/Products/Debug-iphonesimulator',
-        `${scheme}.app`
-    );
+    const info = await readProjectInfo(query.project);
+    const bundleId = info && schemeBundleIdentifier(info, query.scheme, query.configuration);
+    if (bundleId) {
+        return bundleId;
+    }
+
+    const product = await resolveAppProduct(query);
+    if (product?.bundleId) {
+        return product.bundleId;
+    }
+
+    // Fall back to the Info.plist of the built app
+    const builtAppPath = appPath ?? product?.appPath;
+    if (!builtAppPath) {
+        return undefined;
+    }
+
+    // Mac Catalyst apps are macOS bundles
+    const catalystInfoPlist = path.join(builtAppPath, 'Contents', 'Info.plist');
+    const infoPlist = fs.existsSync(catalystInfoPlist) ? catalystInfoPlist : path.join(builtAppPath, 'Info.plist');
 
     try {
-        const { stdout } = await execAsync(
-            `defaults read "${appPath}/Info.plist" CFBundleIdentifier`
-        );
+        const { stdout } = await run('defaults', ['read', infoPlist, 'CFBundleIdentifier']);
         return stdout.trim();
     } catch {
-        // Try to extract from project file
         return undefined;
     }
 }
+
+/**
+ * Platforms the scheme's app runs on, for offering only compatible devices.
+ * Undefined when they can't be read from the project, e.g. for Swift packages.
+ */
+export async function getSupportedPlatforms(project: XcodeProject, scheme: string): Promise<string[] | undefined> {
+    const info = await readProjectInfo(project);
+    return info && schemePlatforms(info, scheme);
+}
@@ -0,0 +1,437 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { XcodeProject } from './project';
+import { PlistDict, PlistValue, isPlistDict, parsePlist } from './plist';
+import { parseSchemeTestTargets } from '../testing/sources';
+
+export interface ProjectTarget {
+    name: string;
+    /** e.g. com.apple.product-type.application; aggregate targets have none */
+    productType?: string;
+    productName?: string;
+    /** PRODUCT_BUNDLE_IDENTIFIER per build configuration, where the project file alone determines it */
+    bundleIdentifiers: { [configuration: string]: string };
+    /**
+     * SDKs the target builds for (SUPPORTED_PLATFORMS), plus "maccatalyst" and
+     * "macdesignedforipad" when it runs on the Mac. Undefined if the project file doesn't tell.
+     */
+    platforms?: string[];
+}
+
+export interface ProjectFile {
+    configurations: string[];
+    defaultConfiguration?: string;
+    targets: ProjectTarget[];
+}
+
+export interface SchemeFile {
+    name: string;
+    /** Shared schemes live in xcshareddata, user schemes in xcuserdata */
+    shared: boolean;
+    /** Target run by the Run action */
+    launchTarget?: string;
+    launchConfiguration?: string;
+    buildTargets: string[];
+    testTargets: string[];
+}
+
+/**
+ * Everything SimBuild reads from a project or workspace without xcodebuild.
+ */
+export interface ProjectInfo {
+    configurations: string[];
+    targets: ProjectTarget[];
+    schemes: SchemeFile[];
+}
+
+const APPLICATION_TYPES = [
+    'com.apple.product-type.application',
+    'com.apple.product-type.application.watchapp2',
+    'com.apple.product-type.application.watchapp2-container',
+    'com.apple.product-type.application.messages'
+];
+
+export function isApplicationTarget(target: ProjectTarget): boolean {
+    return target.productType !== undefined && APPLICATION_TYPES.includes(target.productType);
+}
+
+function stringValue(value: PlistValue | undefined): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+// Applies the build setting modifiers Xcode templates use in bundle identifiers
+function applyModifier(value: string, modifier: string | undefined): string {
+    switch (modifier) {
+        case 'rfc1034identifier':
+            return value.replace(/[^A-Za-z0-9.-]/g, '-');
+        case 'c99extidentifier':
+            return value.replace(/[^A-Za-z0-9_]/g, '_');
+        case 'lower':
+            return value.toLowerCase();
+        case 'upper':
+            return value.toUpperCase();
+        default:
+            return value;
+    }
+}
+
+/**
+ * Expands `$(NAME)`, `${NAME}` and `$(NAME:modifier)` references. Undefined when
+ * a reference can't be resolved from the given settings, e.g. one set in an xcconfig.
+ */
+export function expandBuildSetting(value: string, settings: { [key: string]: string }, depth = 0): string | undefined {
+    if (depth > 10) {
+        return undefined;
+    }
+
+    let unresolved = false;
+    const expanded = value.replace(/\$[({]([A-Za-z0-9_]+)(?::([A-Za-z0-9]+))?[)}]/g, (_, name: string, modifier?: string) => {
+        const setting = settings[name] !== undefined ? expandBuildSetting(settings[name], settings, depth + 1) : undefined;
+        if (setting === undefined) {
+            unresolved = true;
+            return '';
+        }
+        return applyModifier(setting, modifier);
+    });
+
+    return unresolved ? undefined : expanded;
+}
+
+// The platforms an SDKROOT stands for when SUPPORTED_PLATFORMS isn't set
+const SDK_PLATFORMS: { [sdk: string]: string[] } = {
+    iphoneos: ['iphoneos', 'iphonesimulator'],
+    watchos: ['watchos', 'watchsimulator'],
+    appletvos: ['appletvos', 'appletvsimulator'],
+    xros: ['xros', 'xrsimulator'],
+    macosx: ['macosx']
+};
+
+/**
+ * The platforms of one build configuration, see ProjectTarget.platforms.
+ */
+export function targetPlatforms(settings: { [key: string]: string }): string[] | undefined {
+    const supported = settings.SUPPORTED_PLATFORMS !== undefined
+        ? expandBuildSetting(settings.SUPPORTED_PLATFORMS, settings)?.split(/\s+/).filter(Boolean)
+        : SDK_PLATFORMS[settings.SDKROOT];
+    if (!supported) {
+        return undefined;
+    }
+
+    const platforms = [...supported];
+    if (supported.includes('iphoneos')) {
+        if (settings.SUPPORTS_MACCATALYST === 'YES') {
+            platforms.push('maccatalyst');
+        }
+        // Xcode lets iPad apps run on Apple silicon Macs unless this is turned off
+        if (settings.SUPPORTS_MAC_DESIGNED_FOR_IPHONE_IPAD !== 'NO') {
+            platforms.push('macdesignedforipad');
+        }
+    }
+    return platforms;
+}
+
+function buildSettingsOf(configuration: PlistDict | undefined): { [key: string]: string } {
+    const settings: { [key: string]: string } = {};
+    const buildSettings = configuration?.buildSettings;
+    if (isPlistDict(buildSettings)) {
+        for (const [key, value] of Object.entries(buildSettings)) {
+            if (typeof value === 'string') {
+                settings[key] = value;
+            }
+        }
+    }
+    return settings;
+}
+
+/**
+ * Parses a project.pbxproj into its build configurations and targets.
+ */
+export function parseProjectFile(text: string): ProjectFile {
+    const root = parsePlist(text);
+    const objects = isPlistDict(root) && isPlistDict(root.objects) ? root.objects : {};
+
+    const object = (id: PlistValue | undefined): PlistDict | undefined => {
+        const value = typeof id === 'string' ? objects[id] : undefined;
+        return isPlistDict(value) ? value : undefined;
+    };
+
+    // Build configurations of an XCConfigurationList, by name
+    const configurationList = (id: PlistValue | undefined): Map<string, PlistDict> => {
+        const list = object(id);
+        const configurations = new Map<string, PlistDict>();
+        for (const configurationId of Array.isArray(list?.buildConfigurations) ? list!.buildConfigurations : []) {
+            const configuration = object(configurationId);
+            const name = stringValue(configuration?.name);
+            if (configuration && name) {
+                configurations.set(name, configuration);
+            }
+        }
+        return configurations;
+    };
+
+    const project = isPlistDict(root) ? object(root.rootObject) : undefined;
+    if (!project) {
+        throw new Error('Invalid project file: missing root object');
+    }
+
+    const projectConfigurations = configurationList(project.buildConfigurationList);
+    const targets: ProjectTarget[] = [];
+
+    for (const targetId of Array.isArray(project.targets) ? project.targets : []) {
+        const target = object(targetId);
+        const name = stringValue(target?.name);
+        if (!target || !name) {
+            continue;
+        }
+
+        const productName = stringValue(target.productName);
+        const bundleIdentifiers: { [configuration: string]: string } = {};
+        let platforms: Set<string> | undefined;
+
+        for (const [configurationName, configuration] of configurationList(target.buildConfigurationList)) {
+            const targetSettings = buildSettingsOf(configuration);
+            const settings: { [key: string]: string } = {
+                TARGET_NAME: name,
+                PRODUCT_NAME: productName ?? name,
+                CONFIGURATION: configurationName,
+                ...buildSettingsOf(projectConfigurations.get(configurationName)),
+                ...targetSettings
+            };
+
+            for (const platform of targetPlatforms(settings) ?? []) {
+                (platforms ??= new Set()).add(platform);
+            }
+
+            // Only a target-level value is authoritative: a target xcconfig overrides project-level settings
+            const bundleId = targetSettings.PRODUCT_BUNDLE_IDENTIFIER;
+            const expanded = bundleId !== undefined ? expandBuildSetting(bundleId, settings) : undefined;
+            if (expanded) {
+                bundleIdentifiers[configurationName] = expanded;
+            }
+        }
+
+        targets.push({
+            name,
+            productType: stringValue(target.productType),
+            productName,
+            bundleIdentifiers,
+            platforms: platforms && [...platforms]
+        });
+    }
+
+    return {
+        configurations: [...projectConfigurations.keys()],
+        defaultConfiguration: stringValue(object(project.buildConfigurationList)?.defaultConfigurationName),
+        targets
+    };
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+    return attributes.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`))?.[1];
+}
+
+function blueprintNames(xml: string): string[] {
+    return [...xml.matchAll(/<BuildableReference\b([^>]*)>/g)]
+        .map(match => attribute(match[1], 'BlueprintName'))
+        .filter((name): name is string => name !== undefined);
+}
+
+/**
+ * Parses an .xcscheme file.
+ */
+export function parseScheme(xml: string, name: string, shared: boolean): SchemeFile {
+    const buildAction = xml.match(/<BuildAction\b[^>]*>([\s\S]*?)<\/BuildAction>/)?.[1] ?? '';
+    const launchAction = xml.match(/<LaunchAction\b([^>]*)>([\s\S]*?)<\/LaunchAction>/);
+    const runnable = launchAction?.[2].match(/<BuildableProductRunnable\b[^>]*>([\s\S]*?)<\/BuildableProductRunnable>/);
+
+    return {
+        name,
+        shared,
+        launchTarget: runnable ? blueprintNames(runnable[1])[0] : undefined,
+        launchConfiguration: launchAction ? attribute(launchAction[1], 'buildConfiguration') : undefined,
+        buildTargets: [...new Set(blueprintNames(buildAction))],
+        testTargets: parseSchemeTestTargets(xml)
+    };
+}
+
+/**
+ * Returns the .xcodeproj paths a contents.xcworkspacedata references,
+ * following the locations of nested groups.
+ */
+export function parseWorkspaceData(xml: string, workspacePath: string): string[] {
+    const containerDir = path.dirname(workspacePath);
+    const groups: string[] = [containerDir];
+    const projects: string[] = [];
+
+    const resolve = (location: string): string => {
+        const separator = location.indexOf(':');
+        const kind = location.slice(0, separator);
+        const value = location.slice(separator + 1);
+        switch (kind) {
+            case 'absolute':
+                return value;
+            case 'container':
+                return path.join(containerDir, value);
+            case 'self':
+                // A project's embedded workspace refers to the project itself
+                return containerDir;
+            default:
+                return path.join(groups[groups.length - 1], value);
+        }
+    };
+
+    for (const match of xml.matchAll(/<(\/?)(Group|FileRef)\b([^>]*?)(\/?)>/g)) {
+        const [, closing, element, attributes, selfClosing] = match;
+        if (element === 'Group') {
+            if (closing) {
+                groups.pop();
+            } else if (!selfClosing) {
+                const location = attribute(attributes, 'location');
+                groups.push(location ? resolve(location) : groups[groups.length - 1]);
+            }
+            continue;
+        }
+
+        const location = !closing ? attribute(attributes, 'location') : undefined;
+        const resolved = location !== undefined ? resolve(location) : undefined;
+        if (resolved?.endsWith('.xcodeproj')) {
+            projects.push(resolved);
+        }
+    }
+
+    return projects;
+}
+
+async function readSchemes(directory: string, shared: boolean): Promise<SchemeFile[]> {
+    let files: string[];
+    try {
+        files = (await fs.promises.readdir(directory)).filter(f => f.endsWith('.xcscheme'));
+    } catch {
+        return [];
+    }
+
+    const schemes: SchemeFile[] = [];
+    for (const file of files) {
+        try {
+            const xml = await fs.promises.readFile(path.join(directory, file), 'utf8');
+            schemes.push(parseScheme(xml, path.basename(file, '.xcscheme'), shared));
+        } catch (error) {
+            console.error('Failed to read scheme:', file, error);
+        }
+    }
+    return schemes;
+}
+
+/**
+ * Shared schemes and the given user's own schemes in a project or workspace bundle.
+ */
+async function readContainerSchemes(container: string, user: string): Promise<SchemeFile[]> {
+    return [
+        ...await readSchemes(path.join(container, 'xcshareddata', 'xcschemes'), true),
+        ...await readSchemes(path.join(container, 'xcuserdata', `${user}.xcuserdatad`, 'xcschemes'), false)
+    ];
+}
+
+/**
+ * Reads targets, configurations and schemes straight from the project files.
+ * Undefined for Swift packages or when no project file could be parsed.
+ */
+export async function readProjectInfo(
+    project: XcodeProject,
+    user = os.userInfo().username
+): Promise<ProjectInfo | undefined> {
+    if (project.type === 'package') {
+        return undefined;
+    }
+
+    let projectPaths = [project.path];
+    const schemes: SchemeFile[] = [];
+
+    if (project.type === 'workspace') {
+        try {
+            const contents = await fs.promises.readFile(path.join(project.path, 'contents.xcworkspacedata'), 'utf8');
+            // The generated CocoaPods project only adds a scheme per pod
+            projectPaths = parseWorkspaceData(contents, project.path).filter(p => path.basename(p) !== 'Pods.xcodeproj');
+        } catch (error) {
+            console.error('Failed to read workspace contents:', error);
+            return undefined;
+        }
+        schemes.push(...await readContainerSchemes(project.path, user));
+    }
+
+    const configurations: string[] = [];
+    const targets: ProjectTarget[] = [];
+    let parsed = false;
+
+    for (const projectPath of projectPaths) {
+        let projectFile: ProjectFile;
+        try {
+            projectFile = parseProjectFile(await fs.promises.readFile(path.join(projectPath, 'project.pbxproj'), 'utf8'));
+        } catch (error) {
+            console.error('Failed to parse project file:', projectPath, error);
+            continue;
+        }
+        parsed = true;
+
+        configurations.push(...projectFile.configurations.filter(c => !configurations.includes(c)));
+        targets.push(...projectFile.targets);
+
+        const projectSchemes = await readContainerSchemes(projectPath, user);
+        if (projectSchemes.length > 0) {
+            schemes.push(...projectSchemes);
+        } else {
+            // Without scheme files Xcode creates one per target
+            schemes.push(...projectFile.targets.map(target => ({
+                name: target.name,
+                shared: false,
+                launchTarget: isApplicationTarget(target) ? target.name : undefined,
+                buildTargets: [target.name],
+                testTargets: []
+            })));
+        }
+    }
+
+    if (!parsed) {
+        return undefined;
+    }
+
+    // Same order as `xcodebuild -list`; a shared scheme wins over a user scheme of the same name
+    const unique = new Map<string, SchemeFile>();
+    for (const scheme of [...schemes.filter(s => s.shared), ...schemes.filter(s => !s.shared)]) {
+        if (!unique.has(scheme.name)) {
+            unique.set(scheme.name, scheme);
+        }
+    }
+
+    return {
+        configurations,
+        targets,
+        schemes: [...unique.values()].sort((a, b) => a.name.localeCompare(b.name))
+    };
+}
+
+// The app target a scheme runs
+function schemeAppTarget(info: ProjectInfo, scheme: string): ProjectTarget | undefined {
+    const schemeFile = info.schemes.find(s => s.name === scheme);
+    if (!schemeFile) {
+        return undefined;
+    }
+
+    const candidates = schemeFile.launchTarget ? [schemeFile.launchTarget] : schemeFile.buildTargets;
+    return info.targets.find(t => candidates.includes(t.name) && isApplicationTarget(t));
+}
+
+/**
+ * The bundle ID of the app a scheme runs, if the project file determines it.
+ */
+export function schemeBundleIdentifier(info: ProjectInfo, scheme: string, configuration: string): string | undefined {
+    return schemeAppTarget(info, scheme)?.bundleIdentifiers[configuration];
+}
+
+/**
+ * The platforms the app a scheme runs supports, see ProjectTarget.platforms.
+ */
+export function schemePlatforms(info: ProjectInfo, scheme: string): string[] | undefined {
+    return schemeAppTarget(info, scheme)?.platforms;
+}
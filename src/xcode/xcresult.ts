@@ -0,0 +1,240 @@
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { BuildIssue } from './buildLog';
+import { run } from '../process/runner';
+
+export interface BuildDestination {
+    name: string;
+    platform: string;
+    osVersion?: string;
+    architecture?: string;
+    udid?: string;
+}
+
+export interface TargetTiming {
+    name: string;
+    duration: number; // milliseconds
+}
+
+export interface StepTiming {
+    target: string;
+    title: string;
+    /** Source file of compile steps */
+    file?: string;
+    duration: number; // milliseconds
+}
+
+export interface ResultBundleSummary {
+    status: string;
+    issues: BuildIssue[];
+    errorCount: number;
+    warningCount: number;
+    destination?: BuildDestination;
+    targets: TargetTiming[];
+    steps: StepTiming[];
+    productPaths: string[];
+    duration?: number; // milliseconds
+}
+
+interface XcresultIssue {
+    issueType?: string;
+    message: string;
+    targetName?: string;
+    sourceURL?: string;
+}
+
+// Output of `xcresulttool get build-results`
+interface XcresultBuildResults {
+    status?: string;
+    startTime?: number;
+    endTime?: number;
+    errorCount?: number;
+    warningCount?: number;
+    destination?: {
+        deviceName?: string;
+        deviceId?: string;
+        platform?: string;
+        osVersion?: string;
+        architecture?: string;
+    };
+    errors?: XcresultIssue[];
+    warnings?: XcresultIssue[];
+    analyzerWarnings?: XcresultIssue[];
+}
+
+// Node of `xcresulttool get log --type build`
+interface XcresultLogSection {
+    title?: string;
+    duration?: number; // seconds
+    emittedOutput?: string;
+    commandDetails?: { commandLine?: string };
+    subsections?: XcresultLogSection[];
+}
+
+const BUILD_TARGET_PATTERN = /^Build target (.+?)(?: of project .*)?(?: with configuration .*)?$/;
+const COMPILE_STEP_PATTERN = /^Compil(?:e|ing) (\S+?)(?: \(.*\))?$/;
+const PRODUCT_PATH_PATTERN = /(\/[^\s"']+\/Build\/Products\/[^/\s"']+\/[^/\s"']+\.(?:app|appex|framework|xctest))(?=[\s"']|$)/g;
+
+/**
+ * Returns a fresh location for the result bundle of a build.
+ * xcodebuild refuses to overwrite an existing bundle, so any previous one is removed.
+ */
+export function prepareResultBundlePath(projectName: string, scheme: string): string {
+    const dir = path.join(os.tmpdir(), 'simbuild');
+    const bundlePath = path.join(dir, `${projectName}-${scheme}.xcresult`.replace(/[^\w.-]/g, '_'));
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.rmSync(bundlePath, { recursive: true, force: true });
+
+    return bundlePath;
+}
+
+/**
+ * Converts a sourceURL such as
+ * "file:///path/File.swift#EndingColumnNumber=9&StartingLineNumber=11&StartingColumnNumber=4"
+ * into a 1-based location (xcresult locations are 0-based).
+ */
+function parseSourceURL(sourceURL: string | undefined): Pick<BuildIssue, 'file' | 'line' | 'column'> {
+    if (!sourceURL?.startsWith('file://')) {
+        return {};
+    }
+
+    const [fileURL, fragment = ''] = sourceURL.split('#');
+    const params = new URLSearchParams(fragment);
+    const line = params.get('StartingLineNumber');
+    const column = params.get('StartingColumnNumber');
+
+    return {
+        file: decodeURIComponent(fileURL.replace(/^file:\/\//, '')),
+        line: line !== null ? parseInt(line, 10) + 1 : undefined,
+        column: column !== null ? parseInt(column, 10) + 1 : undefined
+    };
+}
+
+function toIssues(issues: XcresultIssue[] | undefined, severity: BuildIssue['severity']): BuildIssue[] {
+    return (issues || []).map(issue => ({
+        severity,
+        message: issue.message,
+        ...parseSourceURL(issue.sourceURL),
+        target: issue.targetName
+    }));
+}
+
+export function parseBuildResults(data: XcresultBuildResults): Omit<ResultBundleSummary, 'targets' | 'steps' | 'productPaths'> {
+    const issues = [
+        ...toIssues(data.errors, 'error'),
+        ...toIssues(data.warnings, 'warning'),
+        ...toIssues(data.analyzerWarnings, 'warning')
+    ];
+
+    const destination = data.destination?.deviceName
+        ? {
+            name: data.destination.deviceName,
+            platform: data.destination.platform || 'Unknown',
+            osVersion: data.destination.osVersion,
+            architecture: data.destination.architecture,
+            udid: data.destination.deviceId
+        }
+        : undefined;
+
+    return {
+        status: data.status || 'unknown',
+        issues,
+        errorCount: data.errorCount ?? issues.filter(i => i.severity === 'error').length,
+        warningCount: data.warningCount ?? issues.filter(i => i.severity === 'warning').length,
+        destination,
+        duration: data.startTime !== undefined && data.endTime !== undefined
+            ? Math.round((data.endTime - data.startTime) * 1000)
+            : undefined
+    };
+}
+
+/**
+ * Source file of a "Compile File.swift" step, as a full path when the command line has one.
+ */
+function compiledFile(section: XcresultLogSection): string | undefined {
+    const name = section.title?.match(COMPILE_STEP_PATTERN)?.[1];
+    if (!name) {
+        return undefined;
+    }
+    const fullPath = section.commandDetails?.commandLine
+        ?.split(/\s+/)
+        .find(arg => arg.startsWith('/') && path.basename(arg) === name);
+    return fullPath ?? name;
+}
+
+type BuildLogSections = Pick<ResultBundleSummary, 'targets' | 'steps' | 'productPaths'>;
+
+export function parseBuildLogSections(root: XcresultLogSection): BuildLogSections {
+    const targets: TargetTiming[] = [];
+    const steps: StepTiming[] = [];
+    const productPaths = new Set<string>();
+
+    const visit = (section: XcresultLogSection, target?: string) => {
+        const targetMatch = section.title?.match(BUILD_TARGET_PATTERN);
+        if (targetMatch && section.duration !== undefined) {
+            targets.push({ name: targetMatch[1], duration: Math.round(section.duration * 1000) });
+        } else if (target && section.title && section.duration !== undefined) {
+            // Direct children of a target section are its build steps
+            steps.push({
+                target,
+                title: section.title,
+                file: compiledFile(section),
+                duration: Math.round(section.duration * 1000)
+            });
+        }
+
+        const text = [section.title, section.commandDetails?.commandLine, section.emittedOutput].join('\n');
+        for (const match of text.matchAll(PRODUCT_PATH_PATTERN)) {
+            productPaths.add(match[1]);
+        }
+
+        for (const child of section.subsections || []) {
+            visit(child, targetMatch ? targetMatch[1] : undefined);
+        }
+    };
+
+    visit(root);
+
+    return { targets, steps, productPaths: [...productPaths] };
+}
+
+export async function xcresulttool(args: string[]): Promise<any> {
+    const { stdout } = await run('xcrun', ['xcresulttool', ...args], {
+        timeout: 30000,
+        maxBuffer: 64 * 1024 * 1024
+    });
+    return JSON.parse(stdout);
+}
+
+/**
+ * Reads a result bundle written by `xcodebuild -resultBundlePath`.
+ * Returns undefined when the bundle is missing or xcresulttool is unavailable (Xcode < 16).
+ */
+export async function readResultBundle(bundlePath: string): Promise<ResultBundleSummary | undefined> {
+    if (!fs.existsSync(bundlePath)) {
+        return undefined;
+    }
+
+    try {
+        const results = parseBuildResults(
+            await xcresulttool(['get', 'build-results', '--path', bundlePath])
+        );
+
+        // The build log only adds timings and products, so a failure here is not fatal
+        let sections: BuildLogSections = { targets: [], steps: [], productPaths: [] };
+        try {
+            sections = parseBuildLogSections(
+                await xcresulttool(['get', 'log', '--path', bundlePath, '--type', 'build'])
+            );
+        } catch (error) {
+            console.error('Failed to read build log from result bundle:', error);
+        }
+
+        return { ...results, ...sections };
+    } catch (error) {
+        console.error('Failed to read result bundle:', error);
+        return undefined;
+    }
+}